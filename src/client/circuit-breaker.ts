@@ -0,0 +1,50 @@
+/**
+ * Circuit breaker for the Magento REST API.
+ *
+ * Counts consecutive attempts that failed because the store was down
+ * (5xx, timeouts, network errors). Once the threshold is reached the circuit
+ * opens and requests fail fast until the cooldown has passed; then a single
+ * trial request is let through (half-open). Success closes the circuit,
+ * failure re-opens it for another cooldown.
+ *
+ * One breaker is shared by every store-scoped client, since all stores of an
+ * install go down together.
+ */
+
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | undefined;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly cooldownMs: number,
+  ) {}
+
+  /** Whether a request may be sent now. Reserves the trial slot when half-open. */
+  allowRequest(): boolean {
+    if (this.openedAt === undefined) return true;
+    if (Date.now() - this.openedAt < this.cooldownMs || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /** Milliseconds until the circuit will let a trial request through. */
+  retryInMs(): number {
+    return this.openedAt === undefined ? 0 : Math.max(0, this.cooldownMs - (Date.now() - this.openedAt));
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (this.threshold > 0 && this.consecutiveFailures >= this.threshold) {
+      this.openedAt = Date.now();
+    }
+  }
+}
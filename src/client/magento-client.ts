@@ -2,7 +2,8 @@
  * Magento 2 REST API client.
  *
  * Handles authentication (bearer token or OAuth 1.0a),
- * request construction, pagination, and error mapping.
+ * request construction, pagination, store routing, retries with backoff,
+ * circuit breaking, MSI detection, and error mapping.
  *
  * Uses REST rather than GraphQL because:
  * - REST covers the full admin API surface (orders, inventory, shipments, RMAs)
@@ -10,7 +11,9 @@
  * - REST supports searchCriteria filtering which maps well to onX query params
  */
 
-import { type AdapterConfig } from "../config.js";
+import { createHmac, randomBytes } from "node:crypto";
+import { type AdapterConfig, type StoreDefinition } from "../config.js";
+import { CircuitBreaker } from "./circuit-breaker.js";
 
 export interface SearchCriteria {
   filterGroups?: Array<{
@@ -34,6 +37,19 @@ export interface MagentoListResponse<T> {
   total_count: number;
 }
 
+/** An exact offset window over a search result, independent of M2's page boundaries. */
+export interface PageRequest {
+  skip: number;
+  pageSize: number;
+  /** Walk every page from `skip` up to the configured fetch-all limit */
+  fetchAll?: boolean;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  totalCount: number;
+}
+
 export class MagentoApiError extends Error {
   constructor(
     message: string,
@@ -46,18 +62,77 @@ export class MagentoApiError extends Error {
   }
 }
 
+/** The request did not complete within M2_TIMEOUT. */
+export class MagentoTimeoutError extends MagentoApiError {
+  constructor(method: string, endpoint: string, timeoutMs: number) {
+    super(`Magento API error: ${method} ${endpoint} timed out after ${timeoutMs}ms`, 0, method, endpoint);
+    this.name = "MagentoTimeoutError";
+  }
+}
+
+/** The circuit breaker is open — the store has been failing and is not being called. */
+export class MagentoCircuitOpenError extends MagentoApiError {
+  constructor(method: string, endpoint: string, retryInMs: number) {
+    super(
+      `Magento API error: ${method} ${endpoint} not sent — the store is failing repeatedly; retrying in ${Math.ceil(retryInMs / 1000)}s`,
+      0,
+      method,
+      endpoint,
+    );
+    this.name = "MagentoCircuitOpenError";
+  }
+}
+
+export interface RequestOptions {
+  /**
+   * Retry on 429, 5xx, timeouts and network errors. Defaults to true for GET.
+   * Writes default to false and should only opt in together with `recover`.
+   */
+  retry?: boolean;
+  /**
+   * Idempotency guard for write retries: called before every retry to look
+   * up whether the previous attempt already took effect. Returning a value
+   * ends the request with that value instead of sending it again.
+   */
+  recover?: () => Promise<unknown>;
+}
+
+/** Install-wide feature detection, shared by every store-scoped client. */
+interface InstallCapabilities {
+  msi?: Promise<boolean>;
+}
+
+const FETCH_ALL_BATCH_SIZE = 100;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
 export class MagentoClient {
   private baseUrl: string;
   private apiVersion: string;
   private headers: Record<string, string>;
   private timeout: number;
   private storeViewCode: string;
+  /** Upper bound on records returned by a fetchAll query */
+  readonly fetchAllLimit: number;
+  /** The store this client routes requests to */
+  readonly store: StoreDefinition;
 
-  constructor(private config: AdapterConfig) {
+  private circuit: CircuitBreaker;
+  private capabilities: InstallCapabilities;
+
+  constructor(
+    private config: AdapterConfig,
+    store?: StoreDefinition,
+    circuit?: CircuitBreaker,
+    capabilities?: InstallCapabilities,
+  ) {
     this.baseUrl = config.baseUrl;
     this.apiVersion = config.apiVersion;
     this.timeout = config.timeout;
-    this.storeViewCode = config.storeViewCode;
+    this.store = store || config.stores[0];
+    this.storeViewCode = this.store.storeViewCode;
+    this.fetchAllLimit = config.fetchAllLimit;
+    this.circuit = circuit || new CircuitBreaker(config.circuitBreakerThreshold, config.circuitBreakerCooldown);
+    this.capabilities = capabilities || {};
 
     this.headers = {
       "Content-Type": "application/json",
@@ -69,6 +144,97 @@ export class MagentoClient {
     }
   }
 
+  /**
+   * A client routed to another store in the registry, selected by onX tenant
+   * ID or store view code. With neither set, returns this client unchanged.
+   */
+  forStore(selector: { storeView?: string; tenantId?: string }): MagentoClient {
+    if (!selector.storeView && !selector.tenantId) return this;
+
+    const store = this.config.stores.find((s) =>
+      selector.tenantId ? s.tenantId === selector.tenantId : s.storeViewCode === selector.storeView
+    );
+    if (!store) {
+      const key = selector.tenantId ? `tenantId "${selector.tenantId}"` : `storeView "${selector.storeView}"`;
+      throw new Error(`Unknown ${key} — add the store to M2_STORES`);
+    }
+    if (selector.tenantId && selector.storeView && store.storeViewCode !== selector.storeView) {
+      throw new Error(`tenantId "${selector.tenantId}" belongs to store view "${store.storeViewCode}", not "${selector.storeView}"`);
+    }
+
+    return store === this.store ? this : new MagentoClient(this.config, store, this.circuit, this.capabilities);
+  }
+
+  /**
+   * Whether MSI (Multi-Source Inventory) is installed. Detected once and
+   * cached for the process. Only a 404 from the MSI API means the store uses
+   * legacy catalog inventory; any other failure (auth, timeout, 5xx) is
+   * thrown, and detection runs again on the next call.
+   */
+  detectMsi(): Promise<boolean> {
+    if (!this.capabilities.msi) {
+      const detection = this.get("inventory/sources", { pageSize: 1 }).then(
+        () => true,
+        (error: unknown) => {
+          if (error instanceof MagentoApiError && error.statusCode === 404) return false;
+          throw error;
+        }
+      );
+      detection.catch(() => {
+        if (this.capabilities.msi === detection) this.capabilities.msi = undefined;
+      });
+      this.capabilities.msi = detection;
+    }
+    return this.capabilities.msi;
+  }
+
+  /**
+   * Headers for a single request. In OAuth mode every request carries its
+   * own signature, so the Authorization header is built per call.
+   */
+  private requestHeaders(method: string, url: string): Record<string, string> {
+    if (this.config.authMethod !== "oauth") return this.headers;
+    return { ...this.headers, Authorization: this.buildOAuthHeader(method, url) };
+  }
+
+  /**
+   * Build an OAuth 1.0a Authorization header (RFC 5849).
+   *
+   * The signature base string covers the request method, the URL without its
+   * query string, and every oauth_* and query parameter (including the
+   * searchCriteria parameters) sorted by encoded name and value.
+   * JSON request bodies are not form-encoded, so they are not signed.
+   */
+  private buildOAuthHeader(method: string, url: string): string {
+    const parsed = new URL(url);
+    const oauthParams: Record<string, string> = {
+      oauth_consumer_key: this.config.oauthConsumerKey || "",
+      oauth_nonce: randomBytes(16).toString("hex"),
+      oauth_signature_method: this.config.oauthSignatureMethod,
+      oauth_timestamp: String(Math.floor(Date.now() / 1000)),
+      oauth_token: this.config.oauthAccessToken || "",
+      oauth_version: "1.0",
+    };
+
+    const pairs: Array<[string, string]> = [
+      ...Object.entries(oauthParams),
+      ...Array.from(parsed.searchParams.entries()),
+    ].map(([k, v]) => [percentEncode(k), percentEncode(v)]);
+    pairs.sort(([ak, av], [bk, bv]) => (ak === bk ? (av < bv ? -1 : av > bv ? 1 : 0) : ak < bk ? -1 : 1));
+    const normalizedParams = pairs.map(([k, v]) => `${k}=${v}`).join("&");
+
+    const baseUrl = `${parsed.protocol}//${parsed.host}${parsed.pathname}`;
+    const baseString = [method.toUpperCase(), percentEncode(baseUrl), percentEncode(normalizedParams)].join("&");
+    const signingKey = `${percentEncode(this.config.oauthConsumerSecret || "")}&${percentEncode(this.config.oauthAccessTokenSecret || "")}`;
+    const algorithm = this.config.oauthSignatureMethod === "HMAC-SHA1" ? "sha1" : "sha256";
+    const signature = createHmac(algorithm, signingKey).update(baseString).digest("base64");
+
+    const headerParams = { ...oauthParams, oauth_signature: signature };
+    return "OAuth " + Object.entries(headerParams)
+      .map(([k, v]) => `${percentEncode(k)}="${percentEncode(v)}"`)
+      .join(", ");
+  }
+
   private buildUrl(endpoint: string): string {
     const storePrefix = this.storeViewCode === "default" ? "" : `/${this.storeViewCode}`;
     return `${this.baseUrl}/rest${storePrefix}/${this.apiVersion}/${endpoint.replace(/^\//, "")}`;
@@ -107,47 +273,174 @@ export class MagentoClient {
     return params;
   }
 
-  async get<T>(endpoint: string, searchCriteria?: SearchCriteria): Promise<T> {
+  async get<T>(endpoint: string, searchCriteria?: SearchCriteria, options: RequestOptions = {}): Promise<T> {
     let url = this.buildUrl(endpoint);
     if (searchCriteria) {
       const params = this.buildSearchParams(searchCriteria);
       url += `?${params.toString()}`;
     }
+    return this.request<T>("GET", endpoint, url, undefined, { retry: true, ...options });
+  }
+
+  /**
+   * Fetch the records at [skip, skip + pageSize) of a search result.
+   *
+   * M2 paginates by page number, so an offset that is not a multiple of the
+   * page size spans two M2 pages; both are fetched and the window is sliced
+   * out. In fetchAll mode pages are walked until the result is exhausted or
+   * the configured fetch-all limit is reached.
+   */
+  async getPage<T>(endpoint: string, criteria: SearchCriteria, page: PageRequest): Promise<PageResult<T>> {
+    const batchSize = page.fetchAll ? Math.max(page.pageSize, FETCH_ALL_BATCH_SIZE) : page.pageSize;
+    const limit = page.fetchAll ? this.fetchAllLimit : page.pageSize;
+    const end = page.skip + limit;
+
+    const items: T[] = [];
+    let totalCount = 0;
+    let currentPage = Math.floor(page.skip / batchSize) + 1;
+    let pageStart = (currentPage - 1) * batchSize;
+
+    do {
+      const result = await this.get<MagentoListResponse<T>>(endpoint, {
+        ...criteria,
+        currentPage,
+        pageSize: batchSize,
+      });
+      totalCount = result.total_count ?? 0;
+      // M2 clamps out-of-range pages to the last page rather than returning nothing
+      if (pageStart >= totalCount) break;
+
+      const pageItems = result.items || [];
+      items.push(...pageItems.slice(Math.max(0, page.skip - pageStart), end - pageStart));
+
+      if (pageItems.length < batchSize) break;
+      currentPage++;
+      pageStart += batchSize;
+    } while (pageStart < end && pageStart < totalCount);
+
+    return { items, totalCount };
+  }
+
+  /**
+   * Walk every page of a search result, handing each batch to `onBatch`, and
+   * return the total count. Unlike fetchAll this is not capped by the
+   * fetch-all limit, so the caller keeps only what it needs.
+   */
+  async forEachPage<T>(
+    endpoint: string,
+    criteria: SearchCriteria,
+    onBatch: (items: T[]) => Promise<void> | void
+  ): Promise<number> {
+    let totalCount = 0;
+    for (let currentPage = 1; ; currentPage++) {
+      const result = await this.get<MagentoListResponse<T>>(endpoint, {
+        ...criteria,
+        currentPage,
+        pageSize: FETCH_ALL_BATCH_SIZE,
+      });
+      totalCount = result.total_count ?? 0;
+      // M2 clamps out-of-range pages to the last page rather than returning nothing
+      if ((currentPage - 1) * FETCH_ALL_BATCH_SIZE >= totalCount) break;
+
+      const items = result.items || [];
+      await onBatch(items);
+      if (items.length < FETCH_ALL_BATCH_SIZE) break;
+    }
+    return totalCount;
+  }
 
-    const response = await fetch(url, {
-      method: "GET",
-      headers: this.headers,
-      signal: AbortSignal.timeout(this.timeout),
-    });
+  async post<T>(endpoint: string, body: unknown, options: RequestOptions = {}): Promise<T> {
+    return this.request<T>("POST", endpoint, this.buildUrl(endpoint), body, options);
+  }
 
-    if (!response.ok) await this.handleError(response, "GET", endpoint);
-    return response.json() as Promise<T>;
+  async put<T>(endpoint: string, body: unknown, options: RequestOptions = {}): Promise<T> {
+    return this.request<T>("PUT", endpoint, this.buildUrl(endpoint), body, options);
   }
 
-  async post<T>(endpoint: string, body: unknown): Promise<T> {
-    const url = this.buildUrl(endpoint);
-    const response = await fetch(url, {
-      method: "POST",
-      headers: this.headers,
-      body: JSON.stringify(body),
-      signal: AbortSignal.timeout(this.timeout),
-    });
+  /**
+   * Send a request, retrying retryable failures with exponential backoff and
+   * full jitter (or the server's Retry-After), behind the circuit breaker.
+   * Each attempt is signed afresh so OAuth nonces are never reused.
+   */
+  private async request<T>(method: string, endpoint: string, url: string, body: unknown, options: RequestOptions): Promise<T> {
+    const maxRetries = options.retry ? this.config.maxRetries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      if (attempt > 0 && options.recover) {
+        const recovered = await options.recover();
+        if (recovered !== undefined) return recovered as T;
+      }
+
+      if (!this.circuit.allowRequest()) {
+        throw new MagentoCircuitOpenError(method, endpoint, this.circuit.retryInMs());
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: this.requestHeaders(method, url),
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: AbortSignal.timeout(this.timeout),
+        });
+      } catch (error: unknown) {
+        this.circuit.recordFailure();
+        if (attempt < maxRetries) {
+          await sleep(this.backoffDelay(attempt));
+          continue;
+        }
+        if (error instanceof Error && error.name === "TimeoutError") {
+          throw new MagentoTimeoutError(method, endpoint, this.timeout);
+        }
+        throw new MagentoApiError(
+          `Magento API error: ${method} ${endpoint} failed — ${error instanceof Error ? error.message : String(error)}`,
+          0,
+          method,
+          endpoint,
+        );
+      }
 
-    if (!response.ok) await this.handleError(response, "POST", endpoint);
-    return response.json() as Promise<T>;
+      // A 4xx still proves the store is up; only 5xx counts against the circuit
+      if (response.status >= 500) this.circuit.recordFailure();
+      else this.circuit.recordSuccess();
+
+      if (response.ok) return response.json() as Promise<T>;
+
+      if (attempt < maxRetries && RETRYABLE_STATUSES.has(response.status)) {
+        const delay = parseRetryAfter(response.headers.get("retry-after")) ?? this.backoffDelay(attempt);
+        if (delay <= this.config.retryMaxDelay) {
+          await response.body?.cancel();
+          await sleep(delay);
+          continue;
+        }
+      }
+
+      return this.handleError(response, method, endpoint);
+    }
   }
 
-  async put<T>(endpoint: string, body: unknown): Promise<T> {
-    const url = this.buildUrl(endpoint);
-    const response = await fetch(url, {
-      method: "PUT",
-      headers: this.headers,
-      body: JSON.stringify(body),
-      signal: AbortSignal.timeout(this.timeout),
-    });
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.config.retryMaxDelay, this.config.retryBaseDelay * 2 ** attempt);
+    return Math.floor(Math.random() * ceiling);
+  }
 
-    if (!response.ok) await this.handleError(response, "PUT", endpoint);
-    return response.json() as Promise<T>;
+  /**
+   * Check that the configured store answers REST calls. Any HTTP response
+   * below 500 proves reachability; the status tells whether credentials work.
+   */
+  async healthCheck(): Promise<{ reachable: boolean; status?: number; latencyMs: number; error?: string }> {
+    const started = Date.now();
+    try {
+      await this.get("store/storeConfigs", undefined, { retry: false });
+      return { reachable: true, status: 200, latencyMs: Date.now() - started };
+    } catch (error: unknown) {
+      const latencyMs = Date.now() - started;
+      if (error instanceof MagentoApiError) {
+        const reachable = error.statusCode > 0 && error.statusCode < 500;
+        return { reachable, status: error.statusCode || undefined, latencyMs, error: error.message };
+      }
+      return { reachable: false, latencyMs, error: error instanceof Error ? error.message : String(error) };
+    }
   }
 
   private async handleError(response: Response, method: string, endpoint: string): Promise<never> {
@@ -175,3 +468,21 @@ export class MagentoClient {
     );
   }
 }
+
+/** RFC 3986 percent-encoding, as required for OAuth 1.0a signatures. */
+function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/** Retry-After is either delay-seconds or an HTTP date. Returns milliseconds. */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
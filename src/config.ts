@@ -5,8 +5,27 @@
  * The adapter needs a Magento 2 base URL and either:
  *   - An integration access token (recommended for server-to-server), or
  *   - OAuth 1.0a credentials (consumer key/secret + access token/secret)
+ *
+ * Multi-store installs list their stores in M2_STORES (JSON) so tools can be
+ * routed per call by store view code or onX tenant ID.
+ *
+ * The MCP transport defaults to stdio. HTTP mode (ONX_TRANSPORT=http or the
+ * --http / --transport=http CLI flag) serves streamable HTTP with an SSE
+ * fallback and requires inbound API keys in ONX_HTTP_API_KEYS.
  */
 
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+/** One Magento store view, addressable from onX by tenant ID or store view code. */
+export interface StoreDefinition {
+  tenantId: string;
+  storeViewCode: string;
+  storeId: number;
+  websiteId: number;
+  currency: string;
+}
+
 export interface AdapterConfig {
   baseUrl: string;
   apiVersion: string;
@@ -16,13 +35,46 @@ export interface AdapterConfig {
   oauthConsumerSecret?: string;
   oauthAccessToken?: string;
   oauthAccessTokenSecret?: string;
+  oauthSignatureMethod: "HMAC-SHA256" | "HMAC-SHA1";
   timeout: number;
+  maxRetries: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerCooldown: number;
   storeViewCode: string;
   storeCurrency: string;
+  /** Store registry; the first entry is the default store */
+  stores: StoreDefinition[];
   vendorNamespace: string;
+  fetchAllLimit: number;
+  /** How create-sales-order places orders unless a call picks a mode */
+  orderCreationMode: "admin" | "cart";
+  /** Payment method code used when placing cart-based orders */
+  cartPaymentMethod: string;
+  /** Offline payment method code given to admin-created orders */
+  offlinePaymentMethod: string;
+  /** What admin-mode order creation does when a SKU lacks salable quantity */
+  oversellPolicy: "reject" | "backorder";
+  /** MSI source selection algorithm code used when fulfilling without a locationId */
+  sourceSelectionAlgorithm: string;
+  /** Whether update-return issues a credit memo when it approves RMA items */
+  rmaRefundOnApproval: boolean;
+  /** URL that create-return POSTs store credit refunds to (Magento's REST API cannot credit a customer balance) */
+  storeCreditWebhookUrl?: string;
+  idempotencyStorePath: string;
+  idempotencyTtlHours: number;
+  transport: "stdio" | "http";
+  httpHost: string;
+  httpPort: number;
+  httpApiKeys: string[];
+  /** Largest request body the HTTP transport accepts */
+  httpMaxBodyBytes: number;
+  /** Idle time after which an HTTP MCP session is closed */
+  httpSessionIdleMs: number;
 }
 
-export function loadConfig(): AdapterConfig {
+export function loadConfig(argv: string[] = process.argv.slice(2)): AdapterConfig {
   const baseUrl = requireEnv("M2_BASE_URL");
   const authMethod = (process.env.M2_AUTH_METHOD || "token") as "token" | "oauth";
 
@@ -30,10 +82,33 @@ export function loadConfig(): AdapterConfig {
     baseUrl: baseUrl.replace(/\/+$/, ""),
     apiVersion: process.env.M2_API_VERSION || "V1",
     authMethod,
+    oauthSignatureMethod: (process.env.M2_OAUTH_SIGNATURE_METHOD || "HMAC-SHA256") as "HMAC-SHA256" | "HMAC-SHA1",
     timeout: parseInt(process.env.M2_TIMEOUT || "30000", 10),
+    maxRetries: parseInt(process.env.M2_MAX_RETRIES || "3", 10),
+    retryBaseDelay: parseInt(process.env.M2_RETRY_BASE_DELAY || "500", 10),
+    retryMaxDelay: parseInt(process.env.M2_RETRY_MAX_DELAY || "30000", 10),
+    circuitBreakerThreshold: parseInt(process.env.M2_CIRCUIT_BREAKER_THRESHOLD || "5", 10),
+    circuitBreakerCooldown: parseInt(process.env.M2_CIRCUIT_BREAKER_COOLDOWN || "30000", 10),
     storeViewCode: process.env.M2_STORE_VIEW || "default",
     storeCurrency: process.env.M2_STORE_CURRENCY || "USD",
+    stores: [],
     vendorNamespace: process.env.ONX_VENDOR_NAMESPACE || "m2",
+    fetchAllLimit: parseInt(process.env.ONX_FETCH_ALL_LIMIT || "1000", 10),
+    orderCreationMode: (process.env.ONX_ORDER_CREATION_MODE || "admin") as "admin" | "cart",
+    cartPaymentMethod: process.env.ONX_CART_PAYMENT_METHOD || "checkmo",
+    offlinePaymentMethod: process.env.ONX_OFFLINE_PAYMENT_METHOD || "checkmo",
+    oversellPolicy: (process.env.ONX_OVERSELL_POLICY || "reject") as "reject" | "backorder",
+    sourceSelectionAlgorithm: process.env.ONX_SOURCE_SELECTION_ALGORITHM || "priority",
+    rmaRefundOnApproval: process.env.ONX_RMA_REFUND_ON_APPROVAL === "true",
+    storeCreditWebhookUrl: process.env.ONX_STORE_CREDIT_WEBHOOK_URL || undefined,
+    idempotencyStorePath: process.env.ONX_IDEMPOTENCY_STORE || join(homedir(), ".magento2-onx", "idempotency.json"),
+    idempotencyTtlHours: parseInt(process.env.ONX_IDEMPOTENCY_TTL_HOURS || "72", 10),
+    transport: parseTransport(argv),
+    httpHost: process.env.ONX_HTTP_HOST || "0.0.0.0",
+    httpPort: parseInt(process.env.ONX_HTTP_PORT || "3000", 10),
+    httpApiKeys: [],
+    httpMaxBodyBytes: parseInt(process.env.ONX_HTTP_MAX_BODY_BYTES || "1048576", 10),
+    httpSessionIdleMs: parseInt(process.env.ONX_HTTP_SESSION_IDLE_MINUTES || "30", 10) * 60_000,
   };
 
   if (authMethod === "token") {
@@ -43,11 +118,86 @@ export function loadConfig(): AdapterConfig {
     config.oauthConsumerSecret = requireEnv("M2_OAUTH_CONSUMER_SECRET");
     config.oauthAccessToken = requireEnv("M2_OAUTH_ACCESS_TOKEN");
     config.oauthAccessTokenSecret = requireEnv("M2_OAUTH_ACCESS_TOKEN_SECRET");
+    if (config.oauthSignatureMethod !== "HMAC-SHA256" && config.oauthSignatureMethod !== "HMAC-SHA1") {
+      throw new Error(
+        `Unsupported M2_OAUTH_SIGNATURE_METHOD: ${config.oauthSignatureMethod}. Use HMAC-SHA256 or HMAC-SHA1.`
+      );
+    }
+  }
+
+  if (config.orderCreationMode !== "admin" && config.orderCreationMode !== "cart") {
+    throw new Error(`Unsupported ONX_ORDER_CREATION_MODE: ${config.orderCreationMode}. Use "admin" or "cart".`);
+  }
+
+  if (config.oversellPolicy !== "reject" && config.oversellPolicy !== "backorder") {
+    throw new Error(`Unsupported ONX_OVERSELL_POLICY: ${config.oversellPolicy}. Use "reject" or "backorder".`);
+  }
+
+  config.stores = loadStores(config);
+
+  if (config.transport === "http") {
+    config.httpApiKeys = requireEnv("ONX_HTTP_API_KEYS")
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean);
   }
 
   return config;
 }
 
+/**
+ * Build the store registry. The default store comes from M2_STORE_VIEW,
+ * M2_STORE_ID, M2_WEBSITE_ID and M2_STORE_CURRENCY; M2_STORES adds more
+ * (and may override the default by reusing its store view code).
+ */
+function loadStores(config: AdapterConfig): StoreDefinition[] {
+  const defaultStore: StoreDefinition = {
+    tenantId: process.env.ONX_TENANT_ID || config.storeViewCode,
+    storeViewCode: config.storeViewCode,
+    storeId: parseInt(process.env.M2_STORE_ID || "1", 10),
+    websiteId: parseInt(process.env.M2_WEBSITE_ID || "1", 10),
+    currency: config.storeCurrency,
+  };
+
+  if (!process.env.M2_STORES) return [defaultStore];
+
+  let entries: Array<Partial<StoreDefinition>>;
+  try {
+    entries = JSON.parse(process.env.M2_STORES);
+  } catch {
+    throw new Error("M2_STORES must be a JSON array of store definitions. See .env.example.");
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error("M2_STORES must be a JSON array of store definitions. See .env.example.");
+  }
+
+  const stores = entries.map((entry, i): StoreDefinition => {
+    if (!entry.storeViewCode || entry.storeId === undefined) {
+      throw new Error(`M2_STORES[${i}] requires storeViewCode and storeId`);
+    }
+    return {
+      tenantId: entry.tenantId || entry.storeViewCode,
+      storeViewCode: entry.storeViewCode,
+      storeId: entry.storeId,
+      websiteId: entry.websiteId ?? defaultStore.websiteId,
+      currency: entry.currency || defaultStore.currency,
+    };
+  });
+
+  const override = stores.find((s) => s.storeViewCode === defaultStore.storeViewCode);
+  return [override || defaultStore, ...stores.filter((s) => s !== override)];
+}
+
+/** CLI flags take precedence over ONX_TRANSPORT. */
+function parseTransport(argv: string[]): "stdio" | "http" {
+  const flag = argv.find((arg) => arg === "--http" || arg.startsWith("--transport="));
+  const value = flag === "--http" ? "http" : flag?.split("=")[1] || process.env.ONX_TRANSPORT || "stdio";
+  if (value !== "stdio" && value !== "http") {
+    throw new Error(`Unsupported transport: ${value}. Use "stdio" or "http".`);
+  }
+  return value;
+}
+
 function requireEnv(key: string): string {
   const value = process.env[key];
   if (!value) {
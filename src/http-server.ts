@@ -0,0 +1,235 @@
+/**
+ * HTTP transport for multi-client deployments.
+ *
+ * Serves the MCP streamable HTTP transport on /mcp, with the legacy
+ * HTTP+SSE transport on /sse + /messages for older clients. Each MCP
+ * session gets its own McpServer instance; all sessions share one
+ * MagentoClient, so Magento credentials live in a single process.
+ *
+ * Every MCP endpoint requires one of the configured inbound API keys.
+ * /healthz is unauthenticated, so it only reports whether the store is
+ * reachable, and checks Magento at most once per HEALTH_CACHE_MS.
+ *
+ * Request bodies are capped at ONX_HTTP_MAX_BODY_BYTES (413) and must be
+ * valid JSON (400). Sessions idle for ONX_HTTP_SESSION_IDLE_MINUTES are
+ * closed, so abandoned clients do not hold a server instance forever; a
+ * session with a response still open (an SSE stream or a request in
+ * progress) is not idle. Closing a session, or its client disconnecting,
+ * closes its McpServer and transport.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { AdapterConfig } from "./config.js";
+import type { MagentoClient } from "./client/magento-client.js";
+
+const HEALTH_CACHE_MS = 10_000;
+
+/** A request the client got wrong, answered with its status code */
+class HttpError extends Error {
+  constructor(readonly statusCode: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+interface Session<T> {
+  transport: T;
+  server: McpServer;
+  lastSeen: number;
+  /** Responses still open on the session: SSE streams and requests in progress */
+  openResponses: number;
+}
+
+/** Start listening; resolves with the HTTP server once it is bound. */
+export function startHttpServer(
+  config: AdapterConfig,
+  client: MagentoClient,
+  createServer: () => McpServer,
+): Promise<Server> {
+  const streamableTransports = new Map<string, Session<StreamableHTTPServerTransport>>();
+  const sseTransports = new Map<string, Session<SSEServerTransport>>();
+
+  /** Forget a session and close its server, which closes its transport too */
+  const closeSession = <T>(sessions: Map<string, Session<T>>, id: string) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    session.server.close().catch((error: unknown) => console.error(`magento2-onx could not close session ${id}:`, error));
+  };
+
+  /** Count `res` as activity on the session until it closes */
+  const track = <T>(session: Session<T>, res: ServerResponse) => {
+    session.openResponses++;
+    session.lastSeen = Date.now();
+    res.on("close", () => {
+      session.openResponses--;
+      session.lastSeen = Date.now();
+    });
+  };
+
+  let health: { checkedAt: number; reachable: Promise<boolean> } | undefined;
+  const checkHealth = () => {
+    if (!health || Date.now() - health.checkedAt >= HEALTH_CACHE_MS) {
+      health = { checkedAt: Date.now(), reachable: client.healthCheck().then((h) => h.reachable) };
+    }
+    return health.reachable;
+  };
+
+  // Close sessions whose client went away without closing them; an open stream keeps a session alive
+  const sweepIdle = <T>(sessions: Map<string, Session<T>>) => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.openResponses > 0) session.lastSeen = now;
+      else if (now - session.lastSeen > config.httpSessionIdleMs) closeSession(sessions, id);
+    }
+  };
+  const sweep = setInterval(() => {
+    sweepIdle(streamableTransports);
+    sweepIdle(sseTransports);
+  }, Math.min(config.httpSessionIdleMs, 60_000));
+  sweep.unref();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+      if (url.pathname === "/healthz" && req.method === "GET") {
+        const reachable = await checkHealth();
+        return sendJson(res, reachable ? 200 : 503, { status: reachable ? "ok" : "unavailable" });
+      }
+
+      if (!isAuthorized(req, config.httpApiKeys)) {
+        return sendJson(res, 401, { error: "Unauthorized — provide a valid API key" });
+      }
+
+      if (url.pathname === "/mcp") {
+        const sessionId = headerValue(req, "mcp-session-id");
+        const body = req.method === "POST" ? await readJsonBody(req, config.httpMaxBodyBytes) : undefined;
+        const session = sessionId ? streamableTransports.get(sessionId) : undefined;
+        if (session) track(session, res);
+        let transport = session?.transport;
+
+        if (!transport) {
+          if (sessionId || req.method !== "POST" || !isInitializeRequest(body)) {
+            return sendJson(res, 400, {
+              jsonrpc: "2.0",
+              error: { code: -32000, message: "Bad Request: no valid session ID provided" },
+              id: null,
+            });
+          }
+
+          const server = createServer();
+          const newTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (id) => {
+              streamableTransports.set(id, { transport: newTransport, server, lastSeen: Date.now(), openResponses: 0 });
+            },
+          });
+          newTransport.onclose = () => {
+            if (newTransport.sessionId) closeSession(streamableTransports, newTransport.sessionId);
+          };
+          await server.connect(newTransport);
+          transport = newTransport;
+        }
+
+        return await transport.handleRequest(req, res, body);
+      }
+
+      // Legacy HTTP+SSE transport
+      if (url.pathname === "/sse" && req.method === "GET") {
+        const transport = new SSEServerTransport("/messages", res);
+        const session = { transport, server: createServer(), lastSeen: Date.now(), openResponses: 0 };
+        sseTransports.set(transport.sessionId, session);
+        track(session, res);
+        res.on("close", () => closeSession(sseTransports, transport.sessionId));
+        await session.server.connect(transport);
+        return;
+      }
+
+      if (url.pathname === "/messages" && req.method === "POST") {
+        const session = sseTransports.get(url.searchParams.get("sessionId") || "");
+        if (!session) {
+          return sendJson(res, 404, { error: "Unknown SSE session" });
+        }
+        track(session, res);
+        return await session.transport.handlePostMessage(req, res, await readJsonBody(req, config.httpMaxBodyBytes));
+      }
+
+      sendJson(res, 404, { error: "Not found" });
+    } catch (error: unknown) {
+      if (error instanceof HttpError) {
+        return sendJson(res, error.statusCode, { error: error.message });
+      }
+      console.error("magento2-onx HTTP request failed:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  });
+
+  httpServer.on("close", () => clearInterval(sweep));
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.httpPort, config.httpHost, () => resolve(httpServer));
+  });
+}
+
+function isAuthorized(req: IncomingMessage, apiKeys: string[]): boolean {
+  const bearer = headerValue(req, "authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const presented = bearer || headerValue(req, "x-api-key");
+  if (!presented) return false;
+
+  const presentedBuf = Buffer.from(presented);
+  return apiKeys.some((key) => {
+    const keyBuf = Buffer.from(key);
+    return keyBuf.length === presentedBuf.length && timingSafeEqual(keyBuf, presentedBuf);
+  });
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Read and parse a JSON request body of at most maxBytes. An oversized body
+ * is drained without being kept, so the 413 answer still reaches the client.
+ */
+function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  if (Number(headerValue(req, "content-length")) > maxBytes) {
+    req.resume();
+    return Promise.reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBytes) chunks.push(chunk);
+    });
+    req.on("error", reject);
+    req.on("end", () => {
+      if (size > maxBytes) {
+        return reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes`));
+      }
+      const raw = Buffer.concat(chunks).toString("utf8");
+      try {
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON"));
+      }
+    });
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,165 @@
+/**
+ * Idempotency store for action tools.
+ *
+ * Remembers the result of every successful action call made with an
+ * `idempotencyKey`, so a caller that retries after a dropped connection gets
+ * the original result back instead of a second order, shipment or credit memo.
+ *
+ * Records are kept in a local JSON file (ONX_IDEMPOTENCY_STORE) and expire
+ * after ONX_IDEMPOTENCY_TTL_HOURS. Failed calls are not recorded, so they can
+ * be retried with the same key. Reusing a key with different parameters is
+ * rejected. The file is owned by a single adapter process.
+ *
+ * Calls with the same key run one at a time: the first call registers itself
+ * before anything is awaited, and later ones wait for it and then get its
+ * result. An action can also save a checkpoint before a step that cannot be
+ * undone, so a retry after a crash can find what that step created, and run
+ * its follow-up steps through the checkpoint so a retry only runs the ones
+ * an earlier attempt did not finish.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+interface ToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  /** Set once the action succeeded; a record without it only holds a checkpoint */
+  result?: ToolResult;
+  checkpoint?: Record<string, unknown>;
+  createdAt: number;
+}
+
+/** Progress of an action, kept across attempts with the same key */
+export interface IdempotencyCheckpoint {
+  /** What an earlier attempt with the same key saved, if anything */
+  readonly saved?: Record<string, unknown>;
+  /** Persist progress, merged into what is saved, before a step that cannot be undone (a no-op without a key) */
+  save(progress: Record<string, unknown>): Promise<void>;
+  /**
+   * Run a named step once per key: if an earlier attempt finished it, its
+   * recorded value is returned instead. Without a key the step simply runs.
+   */
+  step<T>(name: string, run: () => Promise<T>): Promise<T>;
+}
+
+/** Steps finished by earlier attempts, kept in the checkpoint under this name */
+const STEPS = "steps";
+
+export class IdempotencyStore {
+  private records: Map<string, IdempotencyRecord> | undefined;
+  private inFlight = new Map<string, Promise<ToolResult>>();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly ttlMs: number,
+  ) {}
+
+  /**
+   * Run an action once per key. Without a key the action simply runs.
+   * Concurrent calls with the same key wait for the first one to finish.
+   */
+  run<R extends ToolResult>(
+    scope: string,
+    key: string | undefined,
+    params: unknown,
+    action: (checkpoint: IdempotencyCheckpoint) => Promise<R>,
+  ): Promise<R | ToolResult> {
+    if (!key) return action({ save: async () => undefined, step: (_name, run) => run() });
+
+    const recordKey = `${scope}:${key}`;
+    const fingerprint = createHash("sha256").update(JSON.stringify(params)).digest("hex");
+
+    // Registered synchronously, so the key works as a lock: a call arriving
+    // while this one runs chains behind it instead of acting a second time
+    const previous = this.inFlight.get(recordKey);
+    const execution = (async () => {
+      if (previous) await previous.catch(() => undefined);
+      return this.runOnce(recordKey, key, fingerprint, action);
+    })();
+    this.inFlight.set(recordKey, execution);
+
+    return execution.finally(() => {
+      if (this.inFlight.get(recordKey) === execution) this.inFlight.delete(recordKey);
+    });
+  }
+
+  private async runOnce<R extends ToolResult>(
+    recordKey: string,
+    key: string,
+    fingerprint: string,
+    action: (checkpoint: IdempotencyCheckpoint) => Promise<R>,
+  ): Promise<R | ToolResult> {
+    const records = await this.load();
+    let existing = records.get(recordKey);
+    if (existing && Date.now() - existing.createdAt >= this.ttlMs) existing = undefined;
+    if (existing && existing.fingerprint !== fingerprint) {
+      throw new Error(`idempotencyKey "${key}" was already used with different parameters`);
+    }
+    if (existing?.result) return existing.result;
+
+    const createdAt = existing?.createdAt ?? Date.now();
+    let progress = existing?.checkpoint;
+    const save = async (update: Record<string, unknown>) => {
+      progress = { ...progress, ...update };
+      records.set(recordKey, { fingerprint, checkpoint: progress, createdAt });
+      await this.save();
+    };
+    const finished = () => (progress?.[STEPS] || {}) as Record<string, { value?: unknown }>;
+
+    const checkpoint: IdempotencyCheckpoint = {
+      saved: existing?.checkpoint,
+      save,
+      step: async <T>(name: string, run: () => Promise<T>) => {
+        const done = finished()[name];
+        if (done) return done.value as T;
+        const value = await run();
+        await save({ [STEPS]: { ...finished(), [name]: { value } } });
+        return value;
+      },
+    };
+
+    const result = await action(checkpoint);
+    if (!result.isError) {
+      records.set(recordKey, { fingerprint, result, createdAt: Date.now() });
+      await this.save();
+    }
+    return result;
+  }
+
+  private async load(): Promise<Map<string, IdempotencyRecord>> {
+    if (this.records) return this.records;
+
+    let stored: Record<string, IdempotencyRecord> = {};
+    try {
+      stored = JSON.parse(await readFile(this.filePath, "utf8"));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+
+    const now = Date.now();
+    this.records = new Map(
+      Object.entries(stored).filter(([, record]) => now - record.createdAt < this.ttlMs)
+    );
+    return this.records;
+  }
+
+  /** Write via a temp file and rename, one write at a time. */
+  private save(): Promise<void> {
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      const now = Date.now();
+      const live = Array.from(this.records || []).filter(([, record]) => now - record.createdAt < this.ttlMs);
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(Object.fromEntries(live)));
+      await rename(tmpPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+}
@@ -12,7 +12,11 @@
  * (AI agents, OMS, WMS, 3PLs) to interact with a Magento 2 store
  * using the Foundation's common operational language.
  *
- * Tools (12): 5 actions + 7 queries — matching the reference server exactly.
+ * Tools (17): the reference server's 5 actions + 7 queries, plus update-return,
+ * update-inventory, capture-payment, get-locations and upsert-location.
+ *
+ * Transports: stdio (default) for a single client, or streamable HTTP with
+ * SSE fallback (--http) so several clients can share one adapter per store.
  *
  * @see https://commerceopsfoundation.org/onx/
  * @see https://github.com/commerce-operations-foundation/mcp-reference-server
@@ -21,17 +25,23 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 
-import { loadConfig } from "./config.js";
+import { loadConfig, type AdapterConfig } from "./config.js";
 import { MagentoClient } from "./client/magento-client.js";
+import { IdempotencyStore } from "./idempotency-store.js";
+import { startHttpServer } from "./http-server.js";
 
-// Action tools (5)
+// Action tools (9)
 import { registerCreateSalesOrder } from "./tools/create-sales-order.js";
 import { registerUpdateOrder } from "./tools/update-order.js";
 import { registerCancelOrder } from "./tools/cancel-order.js";
 import { registerFulfillOrder } from "./tools/fulfill-order.js";
 import { registerCreateReturn } from "./tools/create-return.js";
+import { registerUpdateReturn } from "./tools/update-return.js";
+import { registerUpdateInventory } from "./tools/update-inventory.js";
+import { registerUpsertLocation } from "./tools/upsert-location.js";
+import { registerCapturePayment } from "./tools/capture-payment.js";
 
-// Query tools (7)
+// Query tools (8)
 import { registerGetOrders } from "./tools/get-orders.js";
 import { registerGetCustomers } from "./tools/get-customers.js";
 import { registerGetProducts } from "./tools/get-products.js";
@@ -39,12 +49,10 @@ import { registerGetProductVariants } from "./tools/get-product-variants.js";
 import { registerGetInventory } from "./tools/get-inventory.js";
 import { registerGetFulfillments } from "./tools/get-fulfillments.js";
 import { registerGetReturns } from "./tools/get-returns.js";
+import { registerGetLocations } from "./tools/get-locations.js";
 
-async function main() {
-  const config = loadConfig();
-  const client = new MagentoClient(config);
+function createServer(config: AdapterConfig, client: MagentoClient, idempotency: IdempotencyStore): McpServer {
   const ns = config.vendorNamespace;
-  const currency = config.storeCurrency;
 
   const server = new McpServer({
     name: "magento2-onx",
@@ -53,23 +61,53 @@ async function main() {
       "onX adapter for Magento 2 / Adobe Commerce — Commerce Operations Foundation",
   });
 
-  // Register all 12 onX tools (5 actions + 7 queries)
-  registerCreateSalesOrder(server, client, ns);
-  registerUpdateOrder(server, client, ns);
-  registerCancelOrder(server, client, ns);
-  registerFulfillOrder(server, client, ns);
-  registerCreateReturn(server, client, ns);
+  // Register all 17 onX tools (9 actions + 8 queries)
+  registerCreateSalesOrder(server, client, ns, idempotency, config);
+  registerUpdateOrder(server, client, ns, idempotency);
+  registerCancelOrder(server, client, ns, idempotency);
+  registerFulfillOrder(server, client, ns, idempotency, config);
+  registerCreateReturn(server, client, ns, idempotency, config);
+  registerUpdateReturn(server, client, ns, idempotency, config);
+  registerUpdateInventory(server, client, ns, idempotency);
+  registerUpsertLocation(server, client, ns, idempotency);
+  registerCapturePayment(server, client, ns, idempotency, config);
 
   registerGetOrders(server, client, ns);
   registerGetCustomers(server, client, ns);
-  registerGetProducts(server, client, ns, currency);
-  registerGetProductVariants(server, client, ns, currency);
+  registerGetProducts(server, client, ns);
+  registerGetProductVariants(server, client, ns);
   registerGetInventory(server, client, ns);
   registerGetFulfillments(server, client, ns);
   registerGetReturns(server, client, ns);
+  registerGetLocations(server, client, ns);
+
+  return server;
+}
+
+async function main() {
+  const config = loadConfig();
+  const client = new MagentoClient(config);
+  // Shared by every MCP session so replays are recognized across clients
+  const idempotency = new IdempotencyStore(config.idempotencyStorePath, config.idempotencyTtlHours * 3600_000);
+
+  // Detect MSI up front; if the store is unreachable now, inventory tools detect it on first use
+  try {
+    const msi = await client.detectMsi();
+    console.error(`magento2-onx inventory mode: ${msi ? "MSI" : "legacy catalog inventory"}`);
+  } catch (error: unknown) {
+    console.error("magento2-onx MSI detection failed, will retry on first inventory call:", error);
+  }
+
+  if (config.transport === "http") {
+    await startHttpServer(config, client, () => createServer(config, client, idempotency));
+    console.error(
+      `magento2-onx v0.1.0 listening on http://${config.httpHost}:${config.httpPort} (/mcp, /sse, /healthz) for ${config.baseUrl}`
+    );
+    return;
+  }
 
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer(config, client, idempotency).connect(transport);
 
   console.error(`magento2-onx v0.1.0 connected to ${config.baseUrl}`);
 }
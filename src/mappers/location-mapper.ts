@@ -0,0 +1,54 @@
+/**
+ * Location mapper: Magento 2 MSI source -> onX Location shape.
+ *
+ * A location is an MSI source. Each location lists the stocks it is linked
+ * to (with the link priority) and the sales channels — websites — those
+ * stocks serve. `priority` is the source's best (lowest) link priority.
+ */
+
+import type { M2Source, M2Stock, M2StockSourceLink } from "../types/magento.js";
+
+export function mapM2SourceToOnxLocation(
+  source: M2Source,
+  links: M2StockSourceLink[],
+  stocks: M2Stock[],
+  vendorNs: string
+): Record<string, unknown> {
+  const stocksById = new Map(stocks.map((s) => [s.stock_id, s]));
+  const sourceLinks = links.filter((l) => l.source_code === source.source_code);
+  const priorities = sourceLinks.map((l) => l.priority).filter((p): p is number => p !== undefined);
+  const [address1 = "", address2 = ""] = (source.street || "").split("\n");
+
+  return {
+    id: source.source_code,
+    name: source.name,
+    enabled: source.enabled,
+    priority: priorities.length > 0 ? Math.min(...priorities) : undefined,
+    description: source.description || "",
+    contactName: source.contact_name || "",
+    address: {
+      address1,
+      address2,
+      city: source.city || "",
+      stateOrProvince: source.region || "",
+      zipCodeOrPostalCode: source.postcode,
+      country: source.country_id,
+      phone: source.phone || "",
+      email: source.email || "",
+    },
+    stocks: sourceLinks.map((link) => {
+      const stock = stocksById.get(link.stock_id);
+      return {
+        id: String(link.stock_id),
+        name: stock?.name || "",
+        priority: link.priority,
+        salesChannels: (stock?.extension_attributes?.sales_channels || []).map((c) => ({ type: c.type, code: c.code })),
+      };
+    }),
+    customFields: [
+      { name: `${vendorNs}:latitude`, value: source.latitude !== undefined ? String(source.latitude) : "" },
+      { name: `${vendorNs}:longitude`, value: source.longitude !== undefined ? String(source.longitude) : "" },
+      { name: `${vendorNs}:region_id`, value: source.region_id !== undefined ? String(source.region_id) : "" },
+    ],
+  };
+}
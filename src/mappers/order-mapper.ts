@@ -5,25 +5,43 @@
  * name, status, lineItems, customer, billingAddress, shippingAddress,
  * currency, payments, refunds, discounts, tags, customFields,
  * and all ShippingInfo fields (shippingCarrier, shippingClass, etc.).
+ *
+ * Line items follow M2's row structure: a configurable product is one line
+ * built from its parent row (which holds price, discount, tax and the
+ * shipped/invoiced quantities) with the child's name, and a bundle is one line
+ * whose child rows are listed as `components`.
+ *
+ * Payments come from the order's payment record, refunds from its credit
+ * memos when the caller has loaded them (otherwise one summary refund for
+ * total_refunded), and discounts from the coupon code, discount description
+ * and applied sales rules. paymentStatus is derived from the paid,
+ * authorized and refunded totals.
+ *
+ * orderNote is the customer's checkout note, or else the latest comment
+ * marked "[onX order note]" (written by create-sales-order and update-order);
+ * other comments are never read as the note. giftNote is the order-level
+ * gift message.
  */
 
-import type { M2Order, M2OrderItem, M2Address } from "../types/magento.js";
-
-export function mapM2OrderToOnx(m2Order: M2Order, vendorNs: string): Record<string, unknown> {
-  const lineItems = (m2Order.items || [])
-    .filter((item: M2OrderItem) => item.product_type !== "configurable")
-    .map((item: M2OrderItem) => ({
-      id: String(item.item_id),
-      sku: item.sku,
-      quantity: item.qty_ordered,
-      unitPrice: item.price,
-      unitDiscount: item.discount_amount || 0,
-      totalPrice: item.row_total,
-      name: item.name,
-      customFields: [
-        { name: `${vendorNs}:product_type`, value: item.product_type || "simple" },
-      ],
-    }));
+import type { M2Order, M2OrderItem, M2Address, M2CreditMemo } from "../types/magento.js";
+
+/** Amounts closer than this are treated as equal (M2 stores 4 decimals) */
+const AMOUNT_EPSILON = 0.005;
+
+/** Marks the order comment that holds the onX orderNote */
+const ORDER_NOTE_MARKER = "[onX order note]";
+
+/** The order comment text that stores an onX orderNote */
+export function orderNoteComment(note: string): string {
+  return `${note} ${ORDER_NOTE_MARKER}`;
+}
+
+export function mapM2OrderToOnx(
+  m2Order: M2Order,
+  vendorNs: string,
+  creditMemos?: M2CreditMemo[]
+): Record<string, unknown> {
+  const lineItems = mapLineItems(m2Order.items || [], vendorNs);
 
   return {
     id: String(m2Order.entity_id),
@@ -42,12 +60,12 @@ export function mapM2OrderToOnx(m2Order: M2Order, vendorNs: string): Record<stri
     totalPrice: m2Order.grand_total,
     orderTax: m2Order.tax_amount,
     orderDiscount: Math.abs(m2Order.discount_amount || 0),
-    orderNote: "",
+    orderNote: extractOrderNote(m2Order),
     orderSource: "magento2",
-    paymentStatus: m2Order.state === "complete" ? "paid" : m2Order.state,
-    payments: m2Order.payment ? [{ method: m2Order.payment.method }] : [],
-    refunds: [],
-    discounts: [],
+    paymentStatus: derivePaymentStatus(m2Order),
+    payments: mapPayments(m2Order),
+    refunds: mapRefunds(m2Order, creditMemos),
+    discounts: mapDiscounts(m2Order),
     tags: [],
 
     // ShippingInfo fields
@@ -57,7 +75,7 @@ export function mapM2OrderToOnx(m2Order: M2Order, vendorNs: string): Record<stri
     shippingCode: m2Order.shipping_method || "",
     shippingNote: "",
     shippingPrice: m2Order.shipping_amount,
-    giftNote: "",
+    giftNote: m2Order.extension_attributes?.gift_message?.message || "",
     incoterms: "",
 
     createdAt: m2Order.created_at,
@@ -70,7 +88,150 @@ export function mapM2OrderToOnx(m2Order: M2Order, vendorNs: string): Record<stri
   };
 }
 
-function mapM2Address(addr: M2Address) {
+function mapLineItems(items: M2OrderItem[], vendorNs: string) {
+  const byId = new Map(items.map((i) => [i.item_id, i]));
+  const childrenOf = (parent: M2OrderItem) => items.filter((i) => i.parent_item_id === parent.item_id);
+
+  return items
+    // Child rows are folded into their parent's line
+    .filter((item) => !item.parent_item_id || !byId.has(item.parent_item_id))
+    .map((item) => {
+      const children = childrenOf(item);
+      if (item.product_type === "configurable") {
+        const child = children[0];
+        return {
+          ...mapLineItem(item, vendorNs, child?.name),
+          customFields: [
+            { name: `${vendorNs}:product_type`, value: "configurable" },
+            { name: `${vendorNs}:child_item_id`, value: child ? String(child.item_id) : "" },
+          ],
+        };
+      }
+      if (item.product_type === "bundle") {
+        return {
+          ...mapLineItem(item, vendorNs),
+          components: children.map((child) => mapLineItem(child, vendorNs)),
+        };
+      }
+      return mapLineItem(item, vendorNs);
+    });
+}
+
+function mapLineItem(item: M2OrderItem, vendorNs: string, name?: string) {
+  return {
+    id: String(item.item_id),
+    sku: item.sku,
+    quantity: item.qty_ordered,
+    quantityShipped: item.qty_shipped || 0,
+    quantityInvoiced: item.qty_invoiced || 0,
+    quantityRefunded: item.qty_refunded || 0,
+    quantityCancelled: item.qty_canceled || 0,
+    unitPrice: item.price,
+    unitDiscount: item.discount_amount || 0,
+    totalPrice: item.row_total,
+    tax: item.tax_amount || 0,
+    taxRate: item.tax_percent || 0,
+    name: name || item.name,
+    customFields: [
+      { name: `${vendorNs}:product_type`, value: item.product_type || "simple" },
+    ],
+  };
+}
+
+/**
+ * onX payment status from M2 totals: refunds first, then captures, then
+ * authorizations. A cancelled order that was never paid is voided, and
+ * cancelled amounts are not owed.
+ */
+function derivePaymentStatus(order: M2Order): string {
+  const paid = order.total_paid ?? order.payment?.amount_paid ?? 0;
+  const refunded = order.total_refunded ?? order.payment?.amount_refunded ?? 0;
+  const authorized = order.payment?.amount_authorized ?? 0;
+  const owed = order.grand_total - (order.total_canceled || 0);
+
+  if (refunded > 0) return refunded >= paid - AMOUNT_EPSILON ? "refunded" : "partially_refunded";
+  if (order.state === "canceled" && paid <= 0) return "voided";
+  if (paid > 0) return paid >= owed - AMOUNT_EPSILON ? "paid" : "partially_paid";
+  // Zero-total orders have nothing to collect once invoiced
+  if (order.grand_total <= 0 && order.total_invoiced !== undefined) return "paid";
+  if (authorized > 0) return "authorized";
+  return "pending";
+}
+
+function mapPayments(order: M2Order) {
+  const payment = order.payment;
+  if (!payment) return [];
+  return [{
+    method: payment.method,
+    amount: payment.amount_paid ?? order.total_paid ?? 0,
+    amountAuthorized: payment.amount_authorized ?? 0,
+    amountRefunded: payment.amount_refunded ?? 0,
+    currency: order.order_currency_code,
+    transactionId: payment.last_trans_id || "",
+    cardType: payment.cc_type || "",
+    cardLast4: payment.cc_last4 || "",
+  }];
+}
+
+function mapRefunds(order: M2Order, creditMemos?: M2CreditMemo[]) {
+  if (creditMemos) {
+    return creditMemos
+      .filter((cm) => cm.order_id === order.entity_id && cm.state !== 3)
+      .map((cm) => ({
+        id: String(cm.entity_id),
+        amount: cm.grand_total || 0,
+        currency: cm.order_currency_code || order.order_currency_code,
+        transactionId: cm.transaction_id || "",
+        note: cm.comments?.[0]?.comment || "",
+        lineItems: (cm.items || [])
+          .filter((item) => item.qty > 0)
+          .map((item) => ({ id: String(item.order_item_id), sku: item.sku || "", quantity: item.qty })),
+        createdAt: cm.created_at,
+      }));
+  }
+
+  // Credit memos not loaded — report the refunded total as one refund
+  if (!order.total_refunded) return [];
+  return [{ amount: order.total_refunded, currency: order.order_currency_code }];
+}
+
+function mapDiscounts(order: M2Order) {
+  const amount = Math.abs(order.discount_amount || 0);
+  const ruleIds = (order.applied_rule_ids || "").split(",").map((id) => id.trim()).filter(Boolean);
+  if (!amount && !order.coupon_code && ruleIds.length === 0) return [];
+  return [{
+    code: order.coupon_code || "",
+    description: order.discount_description || "",
+    amount,
+    ruleIds,
+  }];
+}
+
+/** The order's status history as a timeline, oldest entry first. */
+export function mapStatusHistory(order: M2Order) {
+  return sortedHistory(order).map((h) => ({
+    at: h.created_at,
+    status: h.status || "",
+    comment: h.comment || "",
+    customerNotified: !!h.is_customer_notified,
+    visibleOnFront: !!h.is_visible_on_front,
+  }));
+}
+
+function extractOrderNote(order: M2Order): string {
+  if (order.customer_note) return order.customer_note;
+  const note = sortedHistory(order).reverse().find((h) => h.comment?.includes(ORDER_NOTE_MARKER));
+  return note?.comment?.replace(ORDER_NOTE_MARKER, "").trim() || "";
+}
+
+/** M2 returns histories newest first; ties on created_at keep entity_id order. */
+function sortedHistory(order: M2Order) {
+  return [...(order.status_histories || [])].sort((a, b) =>
+    a.created_at === b.created_at ? (a.entity_id || 0) - (b.entity_id || 0) : a.created_at < b.created_at ? -1 : 1
+  );
+}
+
+export function mapM2Address(addr: M2Address) {
   return {
     firstName: addr.firstname,
     lastName: addr.lastname,
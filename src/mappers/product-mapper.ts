@@ -7,7 +7,7 @@
 
 import type { M2Product, M2CustomAttribute, M2ConfigurableOption, M2CategoryLink, M2MediaGalleryEntry } from "../types/magento.js";
 
-export function mapM2ProductToOnx(product: M2Product, vendorNs: string, currency: string): Record<string, unknown> {
+export function mapM2ProductToOnx(product: M2Product, vendorNs: string, _currency: string): Record<string, unknown> {
   const customAttrs = product.custom_attributes || [];
   const getAttr = (code: string) => customAttrs.find((a: M2CustomAttribute) => a.attribute_code === code)?.value;
 
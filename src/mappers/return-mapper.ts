@@ -0,0 +1,297 @@
+/**
+ * Return mapper: Magento 2 RMA (Adobe Commerce) or credit memo (Open Source)
+ * -> onX Return shape.
+ *
+ * RMA status maps to the onX return status: pending → requested,
+ * (partially_)authorized → authorized, received / received_on_item /
+ * approved_on_item / rejected_on_item → received, processed_closed →
+ * completed and closed → declined. receivedAt and completedAt are the times
+ * of the first RMA comments recorded with a received or a closed status.
+ *
+ * The outcome is the items' resolution (refund, exchange, store_credit,
+ * repair, ...): "mixed" when the items resolve differently, and "refund"
+ * until a resolution is set. Reason, condition and resolution are RMA item
+ * attribute option values; pass the option labels to map them to labels.
+ *
+ * The refund fields of an RMA come from the credit memos issued for it, when
+ * the caller has loaded them (canceled credit memos are ignored): amounts are
+ * summed, refundStatus is "refunded" once every credit memo is, and the
+ * refund is "original_payment" when it went through the payment gateway
+ * (carries a transaction ID), else "offline".
+ *
+ * A credit memo's status is its state: pending (open), refunded or canceled.
+ * Its outcome and refund method are read from the "[onX outcome: ...]" and
+ * "[onX refund method: ...]" markers create-return writes into its internal
+ * comment; without them the outcome is "refund" and the method follows the
+ * transaction ID. Customer-visible comments are the customerNote, the others
+ * (markers removed) the internalNote.
+ */
+
+import type { M2Rma, M2RmaItem, M2RmaComment, M2RmaTrack, M2CreditMemo, M2CreditMemoItem, M2CreditMemoComment } from "../types/magento.js";
+
+/** Option value → label, per RMA item attribute */
+export interface RmaOptionLabels {
+  reason: Map<string, string>;
+  condition: Map<string, string>;
+  resolution: Map<string, string>;
+}
+
+const RMA_STATUSES: Record<string, string> = {
+  pending: "requested",
+  authorized: "authorized",
+  partially_authorized: "authorized",
+  received: "received",
+  received_on_item: "received",
+  approved_on_item: "received",
+  rejected_on_item: "received",
+  processed_closed: "completed",
+  closed: "declined",
+};
+
+const CREDIT_MEMO_STATES: Record<number, string> = { 1: "pending", 2: "refunded", 3: "canceled" };
+
+const RECEIVED_STATUSES = new Set(["received", "received_on_item", "approved_on_item", "rejected_on_item"]);
+const CLOSED_STATUSES = new Set(["processed_closed", "closed"]);
+
+export function mapM2RmaToOnxReturn(
+  rma: M2Rma,
+  vendorNs: string,
+  labels?: RmaOptionLabels,
+  creditMemos?: M2CreditMemo[]
+): Record<string, unknown> {
+  const label = (options: Map<string, string> | undefined, value: string | undefined) =>
+    value ? options?.get(String(value)) ?? value : undefined;
+
+  const refunds = (creditMemos || []).filter((cm) => cm.state !== 3);
+  const refundedByItem = new Map<number, number>();
+  for (const item of refunds.flatMap((cm) => cm.items || [])) {
+    refundedByItem.set(item.order_item_id, (refundedByItem.get(item.order_item_id) || 0) + (item.row_total || 0));
+  }
+  const sum = (amount: (cm: M2CreditMemo) => number | undefined) =>
+    refunds.length > 0 ? refunds.reduce((total, cm) => total + (amount(cm) || 0), 0) : undefined;
+  const transactionId = refunds.map((cm) => cm.transaction_id).filter(Boolean).pop();
+
+  const returnLineItems = (rma.items || []).map((item: M2RmaItem) => ({
+    id: String(item.entity_id || ""),
+    orderLineItemId: String(item.order_item_id),
+    sku: item.product_sku || "",
+    quantityReturned: item.qty_requested,
+    returnReason: label(labels?.reason, item.reason) || "",
+    inspection: {
+      conditionCategory: label(labels?.condition, item.condition),
+      dispositionOutcome: label(labels?.resolution, item.resolution),
+      note: "",
+    },
+    unitPrice: item.product_price || undefined,
+    refundAmount: refundedByItem.get(item.order_item_id),
+    restockFee: undefined,
+    name: item.product_name || "",
+  }));
+
+  const totalQuantity = returnLineItems.reduce(
+    (sum, li) => sum + (li.quantityReturned || 0), 0
+  );
+
+  const resolutions = new Set(
+    returnLineItems
+      .map((li) => li.inspection.dispositionOutcome)
+      .filter((r): r is string => !!r)
+      .map(normalizeLabel)
+  );
+  const outcome = resolutions.size === 0 ? "refund" : resolutions.size === 1 ? [...resolutions][0] : "mixed";
+
+  // Extract comments
+  const comments = rma.comments || [];
+  const customerComments = comments
+    .filter((c: M2RmaComment) => c.is_visible_on_front)
+    .map((c: M2RmaComment) => c.comment)
+    .join("; ");
+  const internalComments = comments
+    .filter((c: M2RmaComment) => !c.is_visible_on_front)
+    .map((c: M2RmaComment) => stripMarkers(c.comment))
+    .filter(Boolean)
+    .join("; ");
+  const declineComment = rma.status === "closed"
+    ? comments.filter((c) => c.status === "closed").pop()
+    : undefined;
+  const updatedAt = comments
+    .map((c) => c.created_at)
+    .filter((at): at is string => !!at)
+    .sort()
+    .pop();
+
+  return {
+    id: String(rma.entity_id),
+    returnNumber: rma.increment_id,
+    orderId: String(rma.order_id),
+    status: RMA_STATUSES[rma.status || "pending"] || rma.status,
+    outcome,
+
+    // Items
+    returnLineItems,
+    exchangeLineItems: [],
+    totalQuantity,
+
+    // Shipping (RMA tracks may not be present)
+    returnMethod: undefined,
+    returnShippingAddress: undefined,
+    labels: (rma.tracks || []).map((track: M2RmaTrack) => ({
+      carrier: track.carrier_title || "",
+      trackingNumber: track.track_number || "",
+    })),
+    locationId: undefined,
+
+    // Financial (from the RMA's credit memos)
+    returnTotal: sum((cm) => cm.subtotal),
+    exchangeTotal: undefined,
+    refundAmount: sum((cm) => cm.grand_total),
+    refundMethod: refunds.length > 0 ? (transactionId ? "original_payment" : "offline") : undefined,
+    refundStatus: refunds.length > 0 ? (refunds.every((cm) => cm.state === 2) ? "refunded" : "pending") : undefined,
+    refundTransactionId: transactionId,
+    shippingRefundAmount: sum((cm) => cm.shipping_amount),
+    returnShippingFees: undefined,
+    restockingFee: sum((cm) => Math.abs(cm.adjustment_negative || 0)),
+
+    // Dates
+    requestedAt: rma.date_requested,
+    receivedAt: firstCommentAt(comments, RECEIVED_STATUSES),
+    completedAt: firstCommentAt(comments, CLOSED_STATUSES),
+
+    // Metadata
+    customerNote: customerComments || undefined,
+    internalNote: internalComments || undefined,
+    returnInstructions: undefined,
+    declineReason: declineComment?.comment,
+    statusPageUrl: undefined,
+
+    tags: [],
+    customFields: [
+      { name: `${vendorNs}:return_type`, value: "rma" },
+      { name: `${vendorNs}:rma_entity_id`, value: String(rma.entity_id) },
+      { name: `${vendorNs}:rma_status`, value: rma.status || "pending" },
+      ...refunds.map((cm) => ({ name: `${vendorNs}:creditmemo_id`, value: String(cm.entity_id) })),
+    ],
+
+    createdAt: rma.date_requested,
+    updatedAt: updatedAt || rma.date_requested,
+  };
+}
+
+export function mapM2CreditMemoToOnxReturn(cm: M2CreditMemo, vendorNs: string): Record<string, unknown> {
+  const returnLineItems = (cm.items || []).map((item: M2CreditMemoItem) => ({
+    id: String(item.entity_id || ""),
+    orderLineItemId: String(item.order_item_id),
+    sku: item.sku || "",
+    quantityReturned: item.qty,
+    returnReason: "",
+    unitPrice: item.price || undefined,
+    refundAmount: item.row_total || undefined,
+    restockFee: undefined,
+    name: item.name || "",
+  }));
+
+  const totalQuantity = returnLineItems.reduce(
+    (sum, li) => sum + (li.quantityReturned || 0), 0
+  );
+
+  // Extract comments
+  const comments = cm.comments || [];
+  const commentText = comments.map((c: M2CreditMemoComment) => c.comment).join("; ");
+  const outcome = commentMarker(commentText, "outcome") || "refund";
+  const refundMethod = commentMarker(commentText, "refund method") || (cm.transaction_id ? "original_payment" : "offline");
+  const customerComments = comments
+    .filter((c: M2CreditMemoComment) => c.is_visible_on_front)
+    .map((c: M2CreditMemoComment) => c.comment)
+    .join("; ");
+  const internalComments = comments
+    .filter((c: M2CreditMemoComment) => !c.is_visible_on_front)
+    .map((c: M2CreditMemoComment) => stripMarkers(c.comment))
+    .filter(Boolean)
+    .join("; ");
+
+  return {
+    id: String(cm.entity_id),
+    returnNumber: cm.increment_id,
+    orderId: String(cm.order_id),
+    status: CREDIT_MEMO_STATES[cm.state || 2] || "refunded",
+    outcome,
+
+    // Items
+    returnLineItems,
+    exchangeLineItems: [],
+    totalQuantity,
+
+    // Shipping
+    returnMethod: undefined,
+    returnShippingAddress: undefined,
+    labels: [],
+    locationId: undefined,
+
+    // Financial
+    returnTotal: cm.subtotal,
+    exchangeTotal: undefined,
+    refundAmount: cm.grand_total,
+    refundMethod,
+    refundStatus: CREDIT_MEMO_STATES[cm.state || 2] || "refunded",
+    refundTransactionId: cm.transaction_id || undefined,
+    shippingRefundAmount: cm.shipping_amount || 0,
+    returnShippingFees: undefined,
+    restockingFee: Math.abs(cm.adjustment_negative || 0),
+
+    // Dates
+    requestedAt: cm.created_at,
+    receivedAt: undefined,
+    completedAt: cm.created_at,
+
+    // Metadata
+    customerNote: customerComments || undefined,
+    internalNote: internalComments || undefined,
+    returnInstructions: undefined,
+    declineReason: undefined,
+    statusPageUrl: undefined,
+
+    tags: [],
+    customFields: [
+      { name: `${vendorNs}:return_type`, value: "credit_memo" },
+      { name: `${vendorNs}:creditmemo_id`, value: String(cm.entity_id) },
+      { name: `${vendorNs}:invoice_id`, value: String(cm.invoice_id || "") },
+    ],
+
+    createdAt: cm.created_at,
+    updatedAt: cm.updated_at,
+  };
+}
+
+/** M2 RMA statuses matching onX return statuses (M2 status codes are accepted as-is). */
+export function m2RmaStatusesFor(statuses: string[]): string[] {
+  return Object.keys(RMA_STATUSES).filter((m2) => statuses.includes(RMA_STATUSES[m2]) || statuses.includes(m2));
+}
+
+/** Credit memo states matching onX return statuses ("open" is accepted for pending). */
+export function creditMemoStatesFor(statuses: string[]): number[] {
+  const wanted = statuses.map((s) => (s === "open" ? "pending" : s === "cancelled" ? "canceled" : s));
+  return Object.keys(CREDIT_MEMO_STATES).map(Number).filter((state) => wanted.includes(CREDIT_MEMO_STATES[state]));
+}
+
+/** "Store Credit" → "store_credit" */
+export function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+/** The value of an "[onX <name>: value]" comment marker */
+function commentMarker(text: string, name: string): string | undefined {
+  return text.match(new RegExp(`\\[onX ${name}: ([^\\]]+)\\]`))?.[1];
+}
+
+/** A comment without its "[onX ...]" and "[RMA #...]" markers */
+function stripMarkers(comment: string): string {
+  return comment.replace(/\s*\[(?:onX [^\]]+|RMA #[^\]]+)\]/g, "").trim();
+}
+
+/** Time of the earliest comment recorded with one of the given RMA statuses. */
+function firstCommentAt(comments: M2RmaComment[], statuses: Set<string>): string | undefined {
+  return comments
+    .filter((c) => c.status && statuses.has(c.status) && c.created_at)
+    .map((c) => c.created_at!)
+    .sort()[0];
+}
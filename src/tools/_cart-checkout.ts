@@ -0,0 +1,178 @@
+/**
+ * Cart-based order placement for create-sales-order.
+ *
+ * Builds a quote through M2's carts API and places it, so M2's own pricing,
+ * tax, catalog price rules and cart rules compute the order totals — unlike
+ * the admin POST /orders path, which trusts the totals the caller sends.
+ *
+ * Known customers (matched by email within the store's website) get a
+ * customer cart; everyone else checks out through a guest cart.
+ * A configurable child line names its parent in `parentSku`; the child's
+ * super attribute values are looked up and sent as configurable item options.
+ */
+
+import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
+import type {
+  M2Cart,
+  M2ConfigurableOption,
+  M2Customer,
+  M2Product,
+  M2ProductAttribute,
+  M2ShippingMethod,
+} from "../types/magento.js";
+import { mapOnxAddressToM2, type OnxAddress } from "./_orders.js";
+
+export interface CartOrderInput {
+  lineItems: Array<{ sku: string; quantity: number; parentSku?: string }>;
+  customer?: { email?: string; firstName?: string; lastName?: string };
+  billingAddress?: OnxAddress;
+  shippingAddress?: OnxAddress;
+  shippingCarrier?: string;
+  shippingCode?: string;
+  shippingClass?: string;
+  discounts?: Array<Record<string, unknown>>;
+}
+
+/**
+ * Place an order through a cart and return the new order's entity_id.
+ * `beforePlace` gets the quote ID once the cart is ready and before it is
+ * placed, so a caller can record it and find the order again after a crash.
+ */
+export async function placeCartOrder(
+  client: MagentoClient,
+  input: CartOrderInput,
+  paymentMethod: string,
+  beforePlace?: (quoteId: number) => Promise<void>
+): Promise<number> {
+  const email = input.customer?.email || input.billingAddress?.email || "guest@example.com";
+  const billingAddress = mapOnxAddressToM2(input.billingAddress || input.shippingAddress || {}, email);
+  const shippingAddress = mapOnxAddressToM2(input.shippingAddress || input.billingAddress || {}, email);
+
+  const couponCodes = (input.discounts || [])
+    .map((d) => d.code ?? d.couponCode)
+    .filter((code): code is string => typeof code === "string" && code.length > 0);
+  if (couponCodes.length > 1) {
+    throw new Error(`Magento applies one coupon code per cart, got ${couponCodes.length}: ${couponCodes.join(", ")}`);
+  }
+
+  const customer = input.customer?.email ? await findCustomer(client, input.customer.email) : undefined;
+  const cartId = customer
+    ? await client.post<number>(`customers/${customer.id}/carts`, {})
+    : await client.post<string>("guest-carts", {});
+  const cartPath = customer ? `carts/${cartId}` : `guest-carts/${cartId}`;
+
+  const attributeCodes = new Map<number, string>();
+  for (const line of input.lineItems) {
+    const cartItem: Record<string, unknown> = { sku: line.sku, qty: line.quantity, quote_id: cartId };
+    if (line.parentSku) {
+      cartItem.sku = line.parentSku;
+      cartItem.product_option = {
+        extension_attributes: {
+          configurable_item_options: await configurableItemOptions(client, line.parentSku, line.sku, attributeCodes),
+        },
+      };
+    }
+    await client.post(`${cartPath}/items`, { cartItem });
+  }
+
+  const cart = await client.get<M2Cart>(cartPath);
+  if (cart.is_virtual) {
+    await client.post(`${cartPath}/billing-address`, { address: billingAddress });
+  } else {
+    const methods = await client.post<M2ShippingMethod[]>(`${cartPath}/estimate-shipping-methods`, {
+      address: shippingAddress,
+    });
+    const method = chooseShippingMethod(methods, input);
+    await client.post(`${cartPath}/shipping-information`, {
+      addressInformation: {
+        shipping_address: shippingAddress,
+        billing_address: billingAddress,
+        shipping_carrier_code: method.carrier_code,
+        shipping_method_code: method.method_code,
+      },
+    });
+  }
+
+  if (couponCodes.length > 0) {
+    await client.put(`${cartPath}/coupons/${encodeURIComponent(couponCodes[0])}`, {});
+  }
+
+  await beforePlace?.(cart.id);
+
+  // Placing is not retried: a lost response would otherwise place the cart twice
+  const orderId = customer
+    ? await client.put<number | string>(`${cartPath}/order`, { paymentMethod: { method: paymentMethod } })
+    : await client.post<number | string>(`${cartPath}/payment-information`, {
+        email,
+        paymentMethod: { method: paymentMethod },
+        billingAddress,
+      });
+  return Number(orderId);
+}
+
+async function findCustomer(client: MagentoClient, email: string): Promise<M2Customer | undefined> {
+  const result = await client.get<MagentoListResponse<M2Customer>>("customers/search", {
+    filterGroups: [
+      { filters: [{ field: "email", value: email, conditionType: "eq" }] },
+      { filters: [{ field: "website_id", value: String(client.store.websiteId), conditionType: "eq" }] },
+    ],
+    pageSize: 1,
+  });
+  return result.items?.[0];
+}
+
+/**
+ * The configurable item options that select `childSku` under `parentSku`:
+ * one { option_id, option_value } per super attribute, taken from the child's
+ * own attribute values.
+ */
+async function configurableItemOptions(
+  client: MagentoClient,
+  parentSku: string,
+  childSku: string,
+  attributeCodes: Map<number, string>
+) {
+  const options = await client.get<M2ConfigurableOption[]>(
+    `configurable-products/${encodeURIComponent(parentSku)}/options/all`
+  );
+  const child = await client.get<M2Product>(`products/${encodeURIComponent(childSku)}`);
+
+  const itemOptions = [];
+  for (const option of options) {
+    let code = option.attribute_code || attributeCodes.get(option.attribute_id);
+    if (!code) {
+      const attribute = await client.get<M2ProductAttribute>(`products/attributes/${option.attribute_id}`);
+      code = attribute.attribute_code;
+      attributeCodes.set(option.attribute_id, code);
+    }
+
+    const value = child.custom_attributes?.find((a) => a.attribute_code === code)?.value;
+    if (value === undefined || value === null || value === "") {
+      throw new Error(`SKU ${childSku} has no value for super attribute "${code}" of configurable ${parentSku}`);
+    }
+    itemOptions.push({ option_id: String(option.attribute_id), option_value: parseInt(value, 10) });
+  }
+  return itemOptions;
+}
+
+/**
+ * Pick the requested carrier/method (shippingCode or shippingCarrier, and
+ * shippingClass) among the available ones, or the cheapest when none is requested.
+ */
+function chooseShippingMethod(methods: M2ShippingMethod[], input: CartOrderInput): M2ShippingMethod {
+  const available = methods.filter((m) => m.available);
+  const carrierCode = input.shippingCode || input.shippingCarrier;
+  const candidates = available.filter(
+    (m) =>
+      (!carrierCode || m.carrier_code === carrierCode) &&
+      (!input.shippingClass || m.method_code === input.shippingClass)
+  );
+
+  if (candidates.length === 0) {
+    const offered = available.map((m) => `${m.carrier_code}_${m.method_code}`).join(", ") || "none";
+    throw new Error(
+      `No available shipping method matches ${carrierCode || "any carrier"}/${input.shippingClass || "any method"} (available: ${offered})`
+    );
+  }
+  return candidates.reduce((cheapest, m) => (m.amount < cheapest.amount ? m : cheapest));
+}
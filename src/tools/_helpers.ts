@@ -1,13 +1,14 @@
 /**
  * Shared helpers matching onX reference server conventions:
- * - Reusable zod schemas (addressSchema, customFieldSchema)
+ * - Reusable zod schemas (addressSchema, customFieldSchema, storeScopeSchema)
  * - TemporalPagination (updatedAtMin/Max, createdAtMin/Max, pageSize, skip)
+ *   plus cursor/fetchAll and the `pagination` response block
  * - Array-based filters (ids[], statuses[], skus[])
  * - FulfillmentToolResult response shape
  */
 
 import { z } from "zod";
-import type { SearchCriteria } from "../client/magento-client.js";
+import type { SearchCriteria, PageRequest } from "../client/magento-client.js";
 
 export const customFieldSchema = z.object({ name: z.string(), value: z.string() });
 
@@ -25,6 +26,19 @@ export const addressSchema = z.object({
   zipCodeOrPostalCode: z.string().optional(),
 });
 
+/** Optional per-call store routing, accepted by every tool. */
+export const storeScopeSchema = {
+  storeView: z.string().optional().describe("Store view code to route this call to (defaults to the adapter's default store)"),
+  tenantId: z.string().optional().describe("onX tenant ID of the store to route this call to"),
+};
+
+/** Optional idempotency key, accepted by every action tool. */
+export const idempotencyKeySchema = {
+  idempotencyKey: z.string().optional().describe(
+    "Unique key for this action. Retrying with the same key returns the original result instead of acting twice."
+  ),
+};
+
 export const temporalPaginationSchema = {
   updatedAtMin: z.string().optional().describe("Minimum updated at date (inclusive)"),
   updatedAtMax: z.string().optional().describe("Maximum updated at date (inclusive)"),
@@ -32,8 +46,35 @@ export const temporalPaginationSchema = {
   createdAtMax: z.string().optional().describe("Maximum created at date (inclusive)"),
   pageSize: z.number().optional().describe("Number of results per page (default: 10)"),
   skip: z.number().optional().describe("Number of results to skip for pagination"),
+  cursor: z.string().optional().describe("Opaque cursor from a previous response's pagination.nextCursor (overrides skip)"),
+  fetchAll: z.boolean().optional().describe("Return every remaining page, up to the adapter's fetch-all limit"),
 };
 
+interface PaginationCursor {
+  offset: number;
+  sortOrders: NonNullable<SearchCriteria["sortOrders"]>;
+}
+
+const DEFAULT_SORT_ORDERS: PaginationCursor["sortOrders"] = [
+  { field: "created_at", direction: "DESC" },
+  // Tie-breaker so offsets stay stable when many rows share a timestamp
+  { field: "entity_id", direction: "DESC" },
+];
+
+function encodeCursor(cursor: PaginationCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): PaginationCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as PaginationCursor;
+    if (typeof decoded.offset !== "number" || !Array.isArray(decoded.sortOrders)) throw new Error();
+    return decoded;
+  } catch {
+    throw new Error("Invalid pagination cursor — pass nextCursor exactly as returned by a previous call");
+  }
+}
+
 export function buildSearchCriteria(params: {
   updatedAtMin?: string;
   updatedAtMax?: string;
@@ -41,6 +82,7 @@ export function buildSearchCriteria(params: {
   createdAtMax?: string;
   pageSize?: number;
   skip?: number;
+  cursor?: string;
   extraFilters?: Array<{ field: string; value: string; conditionType: string }>;
 }): SearchCriteria {
   const filterGroups: SearchCriteria["filterGroups"] = [];
@@ -63,21 +105,49 @@ export function buildSearchCriteria(params: {
     }
   }
 
-  const pageSize = params.pageSize || 10;
-  const skip = params.skip || 0;
-  // M2 uses page-based pagination. Non-aligned skip values are silently rounded
-  // to the nearest page boundary. E.g., skip=15, pageSize=10 maps to page 2
-  // (offset 10), not offset 15. Consumers should use multiples of pageSize.
-  const currentPage = Math.floor(skip / pageSize) + 1;
-
+  // The page window itself is applied by MagentoClient.getPage (see resolvePage)
   return {
     filterGroups: filterGroups.length > 0 ? filterGroups : undefined,
-    currentPage,
-    pageSize,
-    sortOrders: [{ field: "created_at", direction: "DESC" }],
+    sortOrders: params.cursor ? decodeCursor(params.cursor).sortOrders : DEFAULT_SORT_ORDERS,
   };
 }
 
+/**
+ * Exact offset window for a query. A cursor carries its own offset, so paging
+ * works for any skip value, not just multiples of pageSize.
+ */
+export function resolvePage(params: { pageSize?: number; skip?: number; cursor?: string; fetchAll?: boolean }): PageRequest {
+  return {
+    skip: params.cursor ? decodeCursor(params.cursor).offset : params.skip || 0,
+    pageSize: params.pageSize || 10,
+    fetchAll: params.fetchAll,
+  };
+}
+
+export function buildPagination(
+  page: PageRequest,
+  criteria: SearchCriteria,
+  result: { items: unknown[]; totalCount: number }
+) {
+  const nextOffset = page.skip + result.items.length;
+  const hasMore = result.items.length > 0 && nextOffset < result.totalCount;
+  return {
+    totalCount: result.totalCount,
+    pageSize: page.pageSize,
+    skip: page.skip,
+    hasMore,
+    nextCursor: hasMore
+      ? encodeCursor({ offset: nextOffset, sortOrders: criteria.sortOrders || DEFAULT_SORT_ORDERS })
+      : undefined,
+  };
+}
+
+/** Apply a page window to records already held in memory. */
+export function paginateLocally<T>(items: T[], page: PageRequest, fetchAllLimit: number): { items: T[]; totalCount: number } {
+  const limit = page.fetchAll ? fetchAllLimit : page.pageSize;
+  return { items: items.slice(page.skip, page.skip + limit), totalCount: items.length };
+}
+
 export function idsFilter(field: string, ids: string[]) {
   return { field, value: ids.join(","), conditionType: "in" };
 }
@@ -0,0 +1,196 @@
+/**
+ * Shared stock helpers for the inventory tools and for action tools that
+ * place orders outside M2's checkout (admin POST /orders), which neither
+ * checks nor reserves stock.
+ *
+ * With MSI (M2 2.3+) salability is checked against the store's stock.
+ * Without MSI the legacy stock item is checked and decremented. MSI
+ * reservations cannot be written through the REST API, so an MSI order placed
+ * this way is marked with an "[onX stock not reserved]" comment instead.
+ */
+
+import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
+import type {
+  M2Order,
+  M2ProductSalableResult,
+  M2SourceItem,
+  M2Stock,
+  M2StockItem,
+  M2StockSourceLink,
+  M2Website,
+} from "../types/magento.js";
+
+export interface OnxInventoryRecord {
+  sku: string;
+  locationId: string;
+  available: number;
+  onHand: number;
+  unavailable: number;
+  tenantId: string;
+}
+
+export interface StockLine {
+  sku: string;
+  quantity: number;
+}
+
+export interface StockShortfall {
+  sku: string;
+  requested: number;
+  /** Salable quantity at the time of the check, when M2 reports one */
+  salable?: number;
+}
+
+/**
+ * The MSI stock assigned to the client's website, or undefined when MSI is
+ * not installed (see MagentoClient.detectMsi).
+ */
+export async function resolveStockId(client: MagentoClient): Promise<number | undefined> {
+  if (!(await client.detectMsi())) return undefined;
+
+  const websites = await client.get<M2Website[]>("store/websites");
+  const website = websites.find((w) => w.id === client.store.websiteId);
+  if (!website) throw new Error(`Website ${client.store.websiteId} not found — check M2_WEBSITE_ID / M2_STORES`);
+  const stock = await client.get<M2Stock>(`inventory/stock-resolver/website/${encodeURIComponent(website.code)}`);
+  return stock.stock_id;
+}
+
+/** Lines whose requested quantity is not salable. Quantities are summed per SKU. */
+export async function findStockShortfalls(client: MagentoClient, lines: StockLine[]): Promise<StockShortfall[]> {
+  const stockId = await resolveStockId(client);
+  const shortfalls: StockShortfall[] = [];
+
+  for (const [sku, requested] of sumBySku(lines)) {
+    if (stockId !== undefined) {
+      const result = await client.get<M2ProductSalableResult>(
+        `inventory/is-product-salable-for-requested-qty/${encodeURIComponent(sku)}/${stockId}/${requested}`
+      );
+      if (!result.salable) {
+        const salable = await client
+          .get<number>(`inventory/get-product-salable-quantity/${encodeURIComponent(sku)}/${stockId}`)
+          .catch(() => undefined);
+        shortfalls.push({ sku, requested, salable });
+      }
+    } else {
+      const stockItem = await client.get<M2StockItem>(`stockItems/${encodeURIComponent(sku)}`);
+      const salable = stockItem.manage_stock === false || !!stockItem.backorders
+        || (stockItem.is_in_stock !== false && stockItem.qty >= requested);
+      if (!salable) {
+        shortfalls.push({ sku, requested, salable: stockItem.is_in_stock === false ? 0 : stockItem.qty });
+      }
+    }
+  }
+
+  return shortfalls;
+}
+
+/**
+ * Record the stock an order consumes by decrementing the legacy stock items.
+ * When that is not possible — MSI, whose reservations have no REST endpoint,
+ * or a failed decrement — the order is marked with an
+ * "[onX stock not reserved]" comment and the reason is returned as a warning.
+ */
+export async function reserveOrderStock(client: MagentoClient, order: M2Order, lines: StockLine[]): Promise<string | undefined> {
+  return adjustOrderStock(client, order, lines, -1, "[onX stock not reserved]");
+}
+
+/**
+ * Give back the stock of cancelled order quantities, the reverse of
+ * reserveOrderStock: the legacy stock items are incremented, and otherwise
+ * the order is marked with an "[onX stock not released]" comment and the
+ * reason is returned as a warning.
+ */
+export async function releaseOrderStock(client: MagentoClient, order: M2Order, lines: StockLine[]): Promise<string | undefined> {
+  return adjustOrderStock(client, order, lines, 1, "[onX stock not released]");
+}
+
+async function adjustOrderStock(
+  client: MagentoClient,
+  order: M2Order,
+  lines: StockLine[],
+  direction: 1 | -1,
+  marker: string
+): Promise<string | undefined> {
+  const quantities = sumBySku(lines);
+  let reason: string;
+  try {
+    if (await client.detectMsi()) {
+      reason = "MSI reservations cannot be written through Magento's REST API";
+    } else {
+      for (const [sku, quantity] of quantities) {
+        const stockItem = await client.get<M2StockItem>(`stockItems/${encodeURIComponent(sku)}`);
+        if (stockItem.manage_stock === false || stockItem.item_id === undefined) continue;
+
+        const qty = stockItem.qty + direction * quantity;
+        await client.put(`products/${encodeURIComponent(sku)}/stockItems/${stockItem.item_id}`, {
+          stockItem: { qty, is_in_stock: qty > 0 || !!stockItem.backorders },
+        });
+      }
+      return undefined;
+    }
+  } catch (error: unknown) {
+    reason = error instanceof Error ? error.message : String(error);
+  }
+
+  const summary = Array.from(quantities, ([sku, quantity]) => `${quantity} × ${sku}`).join(", ");
+  await client.post(`orders/${order.entity_id}/comments`, {
+    statusHistory: {
+      comment: `${marker} ${summary}: ${reason}`,
+      is_customer_notified: 0,
+      is_visible_on_front: 0,
+    },
+  });
+  return `Stock for order ${order.increment_id} was not ${direction < 0 ? "reserved" : "released"} (${reason}); the order is marked with ${marker}`;
+}
+
+/** Stock links of the given MSI sources, and every stock (with its sales channels). */
+export async function getSourceStockLinks(
+  client: MagentoClient,
+  sourceCodes: string[]
+): Promise<{ links: M2StockSourceLink[]; stocks: M2Stock[] }> {
+  if (sourceCodes.length === 0) return { links: [], stocks: [] };
+
+  const [links, stocks] = await Promise.all([
+    client.get<MagentoListResponse<M2StockSourceLink>>("inventory/stock-source-links", {
+      filterGroups: [{ filters: [{ field: "source_code", value: sourceCodes.join(","), conditionType: "in" }] }],
+    }),
+    client.get<MagentoListResponse<M2Stock>>("inventory/stocks", {
+      sortOrders: [{ field: "stock_id", direction: "ASC" }],
+    }),
+  ]);
+  return { links: links.items || [], stocks: stocks.items || [] };
+}
+
+/** An MSI source item as an onX inventory row; a disabled source item is unavailable. */
+export function mapSourceItemToOnx(item: M2SourceItem, vendorNs: string): OnxInventoryRecord {
+  const enabled = item.status !== 0;
+  return {
+    sku: item.sku,
+    locationId: item.source_code,
+    available: enabled ? item.quantity : 0,
+    onHand: item.quantity,
+    unavailable: enabled ? 0 : item.quantity,
+    tenantId: vendorNs,
+  };
+}
+
+/** A legacy stock item as an onX inventory row at the "default" location. */
+export function mapStockItemToOnx(sku: string, stockItem: M2StockItem, vendorNs: string): OnxInventoryRecord {
+  const available = stockItem.is_in_stock === false ? 0 : stockItem.qty;
+  return {
+    sku,
+    locationId: "default",
+    available,
+    onHand: stockItem.qty,
+    unavailable: stockItem.qty - available,
+    tenantId: vendorNs,
+  };
+}
+
+function sumBySku(lines: StockLine[]): Map<string, number> {
+  const quantities = new Map<string, number>();
+  for (const line of lines) {
+    quantities.set(line.sku, (quantities.get(line.sku) || 0) + line.quantity);
+  }
+  return quantities;
+}
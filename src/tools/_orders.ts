@@ -0,0 +1,277 @@
+/**
+ * Shared order helpers for action tools that work on part of an order
+ * (partial shipments, line-level cancellation) or create one.
+ *
+ * onX line items reference an order line by `id` (M2 item_id) or by `sku`.
+ * M2 tracks shipped/invoiced/cancelled quantities on the parent row of a
+ * configurable product, so a configurable child resolves to its parent row.
+ */
+
+import type { z } from "zod";
+import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
+import type { StoreDefinition } from "../config.js";
+import type { M2Order, M2OrderItem } from "../types/magento.js";
+import type { addressSchema } from "./_helpers.js";
+
+export type OnxAddress = z.infer<typeof addressSchema>;
+
+export interface OrderLineRequest {
+  id?: string;
+  sku: string;
+  quantity: number;
+}
+
+/** The onX Order fields an admin-created order is built from */
+export interface AdminOrderInput {
+  status?: string;
+  lineItems: Array<{ sku: string; name?: string; quantity: number; unitPrice?: number; totalPrice?: number }>;
+  customer?: { email?: string; firstName?: string; lastName?: string };
+  /** M2 customer ID; the order is a guest order without one */
+  customerId?: number;
+  billingAddress?: OnxAddress;
+  shippingAddress?: OnxAddress;
+  currency?: string;
+  subTotalPrice?: number;
+  orderDiscount?: number;
+  orderTax?: number;
+  totalPrice?: number;
+  payments?: Array<{ transactionId?: string }>;
+  shippingCarrier?: string;
+  shippingClass?: string;
+  shippingCode?: string;
+  shippingPrice?: number;
+}
+
+export interface ResolvedOrderLine {
+  /** The order row M2 tracks quantities on (configurable parent for child lines) */
+  item: M2OrderItem;
+  sku: string;
+  quantity: number;
+}
+
+/**
+ * Resolve onX line items to M2 order rows. Lines that resolve to the same
+ * row are merged. Throws if a line cannot be matched.
+ */
+export function resolveOrderLines(order: M2Order, lines: OrderLineRequest[]): ResolvedOrderLine[] {
+  const items = order.items || [];
+  const byItemId = new Map(items.map((i) => [i.item_id, i]));
+  const resolved = new Map<number, ResolvedOrderLine>();
+
+  for (const line of lines) {
+    let item = line.id ? byItemId.get(parseInt(line.id, 10)) : undefined;
+    if (!item) {
+      // Configurable parent and child rows share the child's SKU — prefer the top-level row
+      const matches = items.filter((i) => i.sku === line.sku);
+      item = matches.find((i) => !i.parent_item_id) || matches[0];
+    }
+    if (!item) {
+      throw new Error(
+        `Line item ${line.id ? `id ${line.id}` : `SKU ${line.sku}`} not found on order ${order.increment_id}`
+      );
+    }
+
+    const parent = item.parent_item_id ? byItemId.get(item.parent_item_id) : undefined;
+    if (parent?.product_type === "configurable") item = parent;
+
+    const existing = resolved.get(item.item_id);
+    if (existing) {
+      existing.quantity += line.quantity;
+    } else {
+      resolved.set(item.item_id, { item, sku: line.sku, quantity: line.quantity });
+    }
+  }
+
+  return Array.from(resolved.values());
+}
+
+/** Quantity still open to ship, using M2's own getSimpleQtyToShip formula. */
+export function qtyToShip(item: M2OrderItem): number {
+  return item.is_virtual ? 0 : qtyOpen(item);
+}
+
+/** Top-level order rows (configurable children are tracked on their parent). */
+export function topLevelItems(order: M2Order): M2OrderItem[] {
+  const byItemId = new Map((order.items || []).map((i) => [i.item_id, i]));
+  return (order.items || []).filter((i) => {
+    const parent = i.parent_item_id ? byItemId.get(i.parent_item_id) : undefined;
+    return parent?.product_type !== "configurable";
+  });
+}
+
+/** Quantity not yet shipped, refunded or cancelled — what a cancellation can still remove. */
+export function qtyOpen(item: M2OrderItem): number {
+  return Math.max(
+    0,
+    item.qty_ordered - Math.max(item.qty_shipped || 0, item.qty_refunded || 0) - (item.qty_canceled || 0)
+  );
+}
+
+/** Open quantity that has already been invoiced and therefore needs a credit memo to remove. */
+export function qtyInvoicedOpen(item: M2OrderItem): number {
+  return Math.min(
+    qtyOpen(item),
+    Math.max(0, (item.qty_invoiced || 0) - Math.max(item.qty_shipped || 0, item.qty_refunded || 0))
+  );
+}
+
+/** Quantity not yet invoiced or cancelled — what an invoice can still bill. */
+export function qtyToInvoice(item: M2OrderItem): number {
+  return Math.max(0, item.qty_ordered - (item.qty_invoiced || 0) - (item.qty_canceled || 0));
+}
+
+/**
+ * Save selected order fields via the order repository (POST /orders with an
+ * existing entity_id). M2 only writes the fields present on the entity.
+ */
+export async function saveOrderFields(
+  client: MagentoClient,
+  orderId: number,
+  fields: Record<string, unknown>
+): Promise<M2Order> {
+  return client.post<M2Order>("orders", { entity: { entity_id: orderId, ...fields } });
+}
+
+/**
+ * Look up a recent order for `email` whose status history carries `marker`
+ * — used to recognize an order created by an earlier attempt.
+ */
+export async function findOrderByMarker(client: MagentoClient, email: string, marker: string): Promise<M2Order | undefined> {
+  const result = await client.get<MagentoListResponse<M2Order>>("orders", {
+    filterGroups: [{ filters: [{ field: "customer_email", value: email, conditionType: "eq" }] }],
+    sortOrders: [{ field: "created_at", direction: "DESC" }],
+    pageSize: 20,
+  });
+  return result.items?.find((order) => order.status_histories?.some((h) => h.comment?.includes(marker)));
+}
+
+/** Look up the order placed from a quote — used when a cart order was placed but not yet labelled. */
+export async function findOrderByQuoteId(client: MagentoClient, quoteId: number): Promise<M2Order | undefined> {
+  const result = await client.get<MagentoListResponse<M2Order>>("orders", {
+    filterGroups: [{ filters: [{ field: "quote_id", value: String(quoteId), conditionType: "eq" }] }],
+    pageSize: 1,
+  });
+  return result.items?.[0];
+}
+
+/** Map an onX address to the M2 address shape used by orders and carts. */
+export function mapOnxAddressToM2(addr: OnxAddress, email: string) {
+  return {
+    firstname: addr.firstName || "Guest",
+    lastname: addr.lastName || "Customer",
+    company: addr.company,
+    street: [addr.address1 || "", addr.address2 || ""].filter(Boolean),
+    city: addr.city || "",
+    region_code: addr.stateOrProvince,
+    postcode: addr.zipCodeOrPostalCode || "00000",
+    country_id: addr.country || "US",
+    telephone: addr.phone || "0000000000",
+    email: addr.email || email,
+  };
+}
+
+/** The customer email an admin-created order is placed under */
+export function adminOrderEmail(order: AdminOrderInput): string {
+  return order.customer?.email || order.billingAddress?.email || "guest@example.com";
+}
+
+/**
+ * The entity for M2's admin POST /orders: items, totals, addresses and
+ * shipping exactly as given — M2 does not reprice an order created this way.
+ * `comment` becomes the order's first, internal status comment.
+ */
+export function buildAdminOrderEntity(
+  order: AdminOrderInput,
+  store: StoreDefinition,
+  paymentMethod: string,
+  labels: { externalId?: string; comment?: string } = {}
+): Record<string, unknown> {
+  const currency = order.currency || store.currency;
+  const email = adminOrderEmail(order);
+
+  // Build M2 order items
+  const m2Items = order.lineItems.map((item) => ({
+    sku: item.sku,
+    name: item.name || item.sku,
+    qty_ordered: item.quantity,
+    price: item.unitPrice || 0,
+    base_price: item.unitPrice || 0,
+    row_total: item.totalPrice ?? (item.unitPrice || 0) * item.quantity,
+    base_row_total: item.totalPrice ?? (item.unitPrice || 0) * item.quantity,
+    product_type: "simple",
+  }));
+
+  const subtotal = order.subTotalPrice ?? m2Items.reduce((sum, i) => sum + i.row_total, 0);
+  const shippingAmount = order.shippingPrice || 0;
+  const discount = order.orderDiscount || 0;
+  const tax = order.orderTax || 0;
+  const grandTotal = order.totalPrice ?? (subtotal + shippingAmount + tax - discount);
+
+  const billingAddr = mapOnxAddressToM2(order.billingAddress || {}, email);
+  const shippingAddr = mapOnxAddressToM2(order.shippingAddress || order.billingAddress || {}, email);
+
+  const carrierCode = order.shippingCode || order.shippingCarrier || "flatrate";
+  const methodCode = order.shippingClass || "flatrate";
+  const shippingMethod = `${carrierCode}_${methodCode}`;
+
+  const entity: Record<string, unknown> = {
+    customer_email: email,
+    customer_firstname: order.customer?.firstName || billingAddr.firstname,
+    customer_lastname: order.customer?.lastName || billingAddr.lastname,
+    base_currency_code: currency,
+    global_currency_code: currency,
+    order_currency_code: currency,
+    store_currency_code: currency,
+    store_id: store.storeId,
+    state: order.status || "new",
+    status: order.status || "pending",
+    is_virtual: 0,
+    subtotal,
+    base_subtotal: subtotal,
+    grand_total: grandTotal,
+    base_grand_total: grandTotal,
+    shipping_amount: shippingAmount,
+    base_shipping_amount: shippingAmount,
+    tax_amount: tax,
+    base_tax_amount: tax,
+    discount_amount: discount > 0 ? -discount : 0,
+    base_discount_amount: discount > 0 ? -discount : 0,
+    shipping_description: order.shippingCarrier || "Flat Rate - Fixed",
+    shipping_method: shippingMethod,
+    items: m2Items,
+    billing_address: billingAddr,
+    payment: {
+      method: paymentMethod,
+      last_trans_id: order.payments?.find((p) => p.transactionId)?.transactionId,
+    },
+    extension_attributes: {
+      shipping_assignments: [
+        {
+          shipping: {
+            address: shippingAddr,
+            method: shippingMethod,
+          },
+          items: m2Items,
+        },
+      ],
+    },
+  };
+
+  if (order.customerId) {
+    entity.customer_id = order.customerId;
+    entity.customer_is_guest = 0;
+  }
+  if (labels.externalId) {
+    entity.ext_order_id = labels.externalId;
+  }
+  if (labels.comment) {
+    entity.status_histories = [{
+      comment: labels.comment,
+      status: entity.status,
+      entity_name: "order",
+      is_customer_notified: 0,
+      is_visible_on_front: 0,
+    }];
+  }
+  return entity;
+}
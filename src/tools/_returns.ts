@@ -0,0 +1,200 @@
+/**
+ * Shared helpers for the return tools.
+ *
+ * An RMA item's reason, condition and resolution are select attributes: M2
+ * stores and returns the option value, while onX works with the labels
+ * ("Damaged", "Exchange", ...). The option lists come from the RMA item
+ * attribute metadata.
+ *
+ * Refunds are credit memos. One issued for an RMA carries an "[RMA #...]"
+ * marker in its comment; that is how an RMA's credit memos are found again.
+ * Marker comments are internal: they are never appended to the credit memo
+ * email, and a note for the customer is added as a comment of its own.
+ *
+ * Magento's REST API cannot credit a customer balance, so store credit is
+ * handed to a hook (ONX_STORE_CREDIT_WEBHOOK_URL) once the credit memo exists.
+ */
+
+import type { MagentoClient, MagentoListResponse, RequestOptions } from "../client/magento-client.js";
+import type { M2CreditMemo, M2Invoice, M2Order, M2Rma, M2RmaAttributeMetadata } from "../types/magento.js";
+import { idsFilter } from "./_helpers.js";
+import { normalizeLabel, type RmaOptionLabels } from "../mappers/return-mapper.js";
+
+/** Load the option labels of the RMA item select attributes. A missing attribute yields an empty map. */
+export async function getRmaOptionLabels(client: MagentoClient): Promise<RmaOptionLabels> {
+  const load = async (code: string) => {
+    const metadata = await client
+      .get<M2RmaAttributeMetadata>(`returnsAttributeMetadata/${code}`)
+      .catch(() => undefined);
+    return new Map((metadata?.options || []).filter((o) => o.value !== "").map((o) => [String(o.value), o.label]));
+  };
+  const [reason, condition, resolution] = await Promise.all([load("reason"), load("condition"), load("resolution")]);
+  return { reason, condition, resolution };
+}
+
+/**
+ * The option value for an onX label or value ("Store Credit", "store_credit"
+ * and the option value itself all match). Unknown input is passed through.
+ */
+export function rmaOptionValue(options: Map<string, string>, input: string): string {
+  if (options.has(input)) return input;
+  const wanted = normalizeLabel(input);
+  for (const [value, label] of options) {
+    if (normalizeLabel(label) === wanted) return value;
+  }
+  return input;
+}
+
+export interface CreditMemoRequest {
+  items: Array<{ order_item_id: number; qty: number }>;
+  /** Refund online through the invoice's payment gateway when a captured invoice covers the items */
+  online: boolean;
+  shippingAmount?: number;
+  adjustmentPositive?: number;
+  adjustmentNegative?: number;
+  /** Order item IDs whose refunded quantity goes back to stock */
+  returnToStockItems?: number[];
+  /** Internal comment (markers); stored on the credit memo, never sent to the customer */
+  comment?: string;
+  /** Customer-visible comment, added after the credit memo and notified with it */
+  customerNote?: string;
+  notify?: boolean;
+}
+
+/**
+ * Create a credit memo: online against the captured invoice that covers all
+ * items (POST invoice/{id}/refund) when requested and possible, otherwise
+ * offline (POST order/{id}/refund). Returns the credit memo ID and whether
+ * the refund went online.
+ */
+export async function issueCreditMemo(
+  client: MagentoClient,
+  orderId: string,
+  request: CreditMemoRequest,
+  options: RequestOptions = {}
+): Promise<{ creditMemoId: number; online: boolean }> {
+  const invoice = request.online ? await findCapturedInvoice(client, orderId, request.items) : undefined;
+  const payload = {
+    items: request.items,
+    notify: request.notify || false,
+    appendComment: false,
+    comment: request.comment ? { comment: request.comment, is_visible_on_front: 0 } : undefined,
+    arguments: {
+      shipping_amount: request.shippingAmount || 0,
+      adjustment_positive: request.adjustmentPositive || 0,
+      adjustment_negative: request.adjustmentNegative || 0,
+      extension_attributes: request.returnToStockItems?.length
+        ? { return_to_stock_items: request.returnToStockItems }
+        : undefined,
+    },
+  };
+
+  const result = invoice
+    ? await client.post<M2CreditMemo | number>(`invoice/${invoice.entity_id}/refund`, { ...payload, isOnline: true }, options)
+    : await client.post<M2CreditMemo | number>(`order/${orderId}/refund`, payload, options);
+  const creditMemoId = typeof result === "object" ? result.entity_id : Number(result);
+
+  if (request.customerNote) {
+    await client.post(`creditmemo/${creditMemoId}/comments`, {
+      entity: {
+        parent_id: creditMemoId,
+        comment: request.customerNote,
+        is_customer_notified: request.notify ? 1 : 0,
+        is_visible_on_front: 1,
+      },
+    });
+  }
+  return { creditMemoId, online: !!invoice };
+}
+
+/**
+ * Ask the store credit hook to credit the customer with a credit memo's total.
+ * The hook receives a JSON POST and should treat creditMemoId as an
+ * idempotency key, since a retried return can send the same credit memo again.
+ */
+export async function issueStoreCredit(
+  client: MagentoClient,
+  hookUrl: string,
+  creditMemo: M2CreditMemo,
+  timeoutMs: number
+): Promise<void> {
+  const order = await client.get<M2Order>(`orders/${creditMemo.order_id}`);
+  const response = await fetch(hookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      tenantId: client.store.tenantId,
+      websiteId: client.store.websiteId,
+      customerId: order.customer_id,
+      customerEmail: order.customer_email,
+      orderId: String(order.entity_id),
+      orderNumber: order.increment_id,
+      creditMemoId: String(creditMemo.entity_id),
+      creditMemoNumber: creditMemo.increment_id,
+      amount: creditMemo.grand_total || 0,
+      currency: creditMemo.order_currency_code || order.order_currency_code,
+    }),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`store credit hook answered ${response.status} ${response.statusText}`);
+  }
+}
+
+/** Find a credit memo on the order whose comment carries the given marker. */
+export async function findCreditMemoByMarker(client: MagentoClient, orderId: string, marker: string): Promise<number | undefined> {
+  const result = await client.get<MagentoListResponse<M2CreditMemo>>("creditmemos", {
+    filterGroups: [{ filters: [{ field: "order_id", value: orderId, conditionType: "eq" }] }],
+  });
+  const match = (result.items || []).find((cm) => (cm.comments || []).some((c) => c.comment.includes(marker)));
+  return match?.entity_id;
+}
+
+/** Find an RMA on the order whose comment carries the given marker. */
+export async function findRmaByMarker(client: MagentoClient, orderId: string, marker: string): Promise<M2Rma | undefined> {
+  const result = await client.get<MagentoListResponse<M2Rma>>("returns", {
+    filterGroups: [{ filters: [{ field: "order_id", value: orderId, conditionType: "eq" }] }],
+  });
+  return (result.items || []).find((rma) => (rma.comments || []).some((c) => c.comment.includes(marker)));
+}
+
+/** The comment marker linking a credit memo to its RMA */
+export function rmaCreditMemoMarker(rma: M2Rma): string {
+  return `[RMA #${rma.increment_id || rma.entity_id}]`;
+}
+
+/** Credit memos issued for each RMA, keyed by RMA entity_id. */
+export async function getRmaCreditMemos(client: MagentoClient, rmas: M2Rma[]): Promise<Map<number, M2CreditMemo[]>> {
+  const byRma = new Map<number, M2CreditMemo[]>();
+  if (rmas.length === 0) return byRma;
+
+  const orderIds = Array.from(new Set(rmas.map((rma) => String(rma.order_id))));
+  const result = await client.get<MagentoListResponse<M2CreditMemo>>("creditmemos", {
+    filterGroups: [{ filters: [idsFilter("order_id", orderIds)] }],
+  });
+  for (const rma of rmas) {
+    const marker = rmaCreditMemoMarker(rma);
+    byRma.set(
+      rma.entity_id,
+      (result.items || []).filter((cm) => cm.order_id === rma.order_id && (cm.comments || []).some((c) => c.comment.includes(marker)))
+    );
+  }
+  return byRma;
+}
+
+/** A paid invoice with a gateway transaction that invoiced every item. */
+async function findCapturedInvoice(
+  client: MagentoClient,
+  orderId: string,
+  items: Array<{ order_item_id: number }>
+): Promise<M2Invoice | undefined> {
+  const result = await client.get<MagentoListResponse<M2Invoice>>("invoices", {
+    filterGroups: [{ filters: [{ field: "order_id", value: orderId, conditionType: "eq" }] }],
+  });
+  return (result.items || []).find(
+    (invoice) =>
+      invoice.state === 2 &&
+      !!invoice.transaction_id &&
+      items.every((item) => (invoice.items || []).some((i) => i.order_item_id === item.order_item_id && i.qty > 0))
+  );
+}
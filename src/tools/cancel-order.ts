@@ -3,56 +3,223 @@
  *
  * Matches: CancelOrderInputSchema from reference server
  * Input: { orderId, reason?, notifyCustomer?, notes?, lineItems? }
+ *
+ * Without lineItems the whole order is cancelled. With lineItems, only the
+ * given quantities are removed: invoiced quantities through an offline credit
+ * memo, uninvoiced quantities through a qty_canceled adjustment that also
+ * records the cancelled totals and gives the stock back (legacy stock; with
+ * MSI the order is marked "[onX stock not released]"). As with M2's own
+ * cancellation, the grand total and amount due are left as they are.
+ * The whole order is cancelled only when the request leaves no open quantity
+ * on any line. The request is validated before anything is written, and with
+ * an idempotencyKey the credit memo carries the key so a retry reuses it.
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { MagentoClient } from "../client/magento-client.js";
-import type { M2Order } from "../types/magento.js";
+import type { IdempotencyStore } from "../idempotency-store.js";
+import type { M2Order, M2OrderItem } from "../types/magento.js";
 import { mapM2OrderToOnx } from "../mappers/order-mapper.js";
-import { successResult, errorResult } from "./_helpers.js";
+import { storeScopeSchema, idempotencyKeySchema, successResult, errorResult } from "./_helpers.js";
+import { resolveOrderLines, qtyOpen, qtyInvoicedOpen, topLevelItems, saveOrderFields } from "./_orders.js";
+import { releaseOrderStock } from "./_inventory.js";
+import { findCreditMemoByMarker, issueCreditMemo } from "./_returns.js";
+
+/** Order states M2 refuses to cancel or refund in */
+const NON_CANCELLABLE_STATES = new Set(["complete", "closed", "canceled", "holded", "payment_review"]);
+
+interface CancelParams {
+  orderId: string;
+  reason?: string;
+  notifyCustomer?: boolean;
+  notes?: string;
+  lineItems?: Array<{ id?: string; sku: string; quantity: number }>;
+  idempotencyKey?: string;
+}
 
-export function registerCancelOrder(server: McpServer, client: MagentoClient, vendorNs: string) {
+export function registerCancelOrder(server: McpServer, client: MagentoClient, vendorNs: string, idempotency: IdempotencyStore) {
   server.tool(
     "cancel-order",
-    "Cancel existing orders with optional reason tracking. Only orders in pending/processing state can be cancelled.",
+    "Cancel existing orders with optional reason tracking. Only orders in pending/processing state can be cancelled. Pass lineItems to cancel individual lines; the whole order is cancelled only when no open quantity remains.",
     {
       orderId: z.string().describe("ID of the order to cancel"),
       reason: z.string().optional().describe("Reason for cancellation"),
       notifyCustomer: z.boolean().optional().describe("Whether to send cancellation notification"),
       notes: z.string().optional().describe("Additional cancellation notes"),
       lineItems: z.array(z.object({
+        id: z.string().optional().describe("Order line item ID (matched by SKU if omitted)"),
         sku: z.string(),
-        quantity: z.number(),
+        quantity: z.number().min(1),
       })).optional().describe("Specific line items to cancel (omit to cancel entire order)"),
+      ...storeScopeSchema,
+      ...idempotencyKeySchema,
     },
     async (params) => {
       try {
-        const success = await client.post<boolean>(`orders/${params.orderId}/cancel`, {});
-
-        if (!success) {
-          return errorResult(
-            `Order ${params.orderId} could not be cancelled. It may be shipped, completed, or in a non-cancellable state.`
-          );
-        }
-
-        // Add cancellation reason as a comment
-        if (params.reason || params.notes) {
-          const comment = [params.reason, params.notes].filter(Boolean).join(" — ");
-          await client.post(`orders/${params.orderId}/comments`, {
-            statusHistory: {
-              comment: `Cancelled via onX: ${comment}`,
-              is_customer_notified: params.notifyCustomer ? 1 : 0,
-              is_visible_on_front: 0,
-            },
-          });
-        }
-
-        const order = await client.get<M2Order>(`orders/${params.orderId}`);
-        return successResult({ order: mapM2OrderToOnx(order, vendorNs) });
+        const api = client.forStore(params);
+        return await idempotency.run(`cancel-order:${api.store.tenantId}`, params.idempotencyKey, params, async () => {
+          if (params.lineItems?.length) {
+            return await cancelLineItems(api, params, vendorNs);
+          }
+
+          const success = await api.post<boolean>(`orders/${params.orderId}/cancel`, {});
+
+          if (!success) {
+            return errorResult(
+              `Order ${params.orderId} could not be cancelled. It may be shipped, completed, or in a non-cancellable state.`
+            );
+          }
+
+          // Add cancellation reason as a comment
+          if (params.reason || params.notes) {
+            const comment = [params.reason, params.notes].filter(Boolean).join(" — ");
+            await api.post(`orders/${params.orderId}/comments`, {
+              statusHistory: {
+                comment: `Cancelled via onX: ${comment}`,
+                is_customer_notified: params.notifyCustomer ? 1 : 0,
+                is_visible_on_front: 0,
+              },
+            });
+          }
+
+          const order = await api.get<M2Order>(`orders/${params.orderId}`);
+          return successResult({ order: mapM2OrderToOnx(order, vendorNs) });
+        });
       } catch (error: unknown) {
         return errorResult(`cancel-order failed: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
   );
 }
+
+async function cancelLineItems(client: MagentoClient, params: CancelParams, vendorNs: string) {
+  const order = await client.get<M2Order>(`orders/${params.orderId}`);
+  const lines = resolveOrderLines(order, params.lineItems || []);
+
+  // Everything is checked before anything is written
+  if (NON_CANCELLABLE_STATES.has(order.state)) {
+    return errorResult(`cancel-order failed: order ${order.increment_id} is ${order.state} and cannot be cancelled`);
+  }
+  const overages = lines
+    .filter((line) => line.quantity > qtyOpen(line.item))
+    .map((line) => `${line.sku} (requested ${line.quantity}, open ${qtyOpen(line.item)})`);
+  if (overages.length > 0) {
+    return errorResult(`cancel-order failed: requested quantity exceeds the open quantity for ${overages.join(", ")}`);
+  }
+
+  // Cancel uninvoiced quantity first; anything beyond that has been invoiced and must be refunded
+  const plan = lines.map((line) => {
+    const uninvoiced = qtyOpen(line.item) - qtyInvoicedOpen(line.item);
+    const cancelQty = Math.min(line.quantity, uninvoiced);
+    return { ...line, cancelQty, refundQty: line.quantity - cancelQty };
+  });
+
+  const requested = new Map(plan.map((p) => [p.item.item_id, p.quantity]));
+  const cancelsWholeOrder = topLevelItems(order).every(
+    (item) => !item.qty_shipped && qtyOpen(item) === (requested.get(item.item_id) || 0)
+  );
+
+  const summary = plan.map((p) => `${p.quantity} × ${p.sku}`).join(", ");
+  const reason = [params.reason, params.notes].filter(Boolean).join(" — ");
+  const comment = `Cancelled via onX: ${summary}${reason ? ` — ${reason}` : ""}`;
+  const warnings: string[] = [];
+
+  // The refund goes first: M2 does not refund a cancelled order.
+  // An earlier attempt may have issued it before the connection dropped.
+  let creditMemoId: number | undefined;
+  const refundLines = plan.filter((p) => p.refundQty > 0);
+  if (refundLines.length > 0) {
+    const marker = params.idempotencyKey ? `[onX idempotency key: ${params.idempotencyKey}]` : "";
+    const findExisting = () => findCreditMemoByMarker(client, params.orderId, marker);
+    creditMemoId = marker ? await findExisting() : undefined;
+    if (creditMemoId === undefined) {
+      ({ creditMemoId } = await issueCreditMemo(client, params.orderId, {
+        items: refundLines.map((p) => ({ order_item_id: p.item.item_id, qty: p.refundQty })),
+        online: false,
+        comment: ["Cancellation via onX", marker].filter(Boolean).join(" "),
+        notify: params.notifyCustomer,
+      }, marker ? { retry: true, recover: findExisting } : {}));
+    }
+  }
+
+  const cancelLines = plan.filter((p) => p.cancelQty > 0);
+  if (cancelsWholeOrder && cancelLines.length > 0) {
+    // Nothing stays open — let M2 cancel the remainder, release its stock and move the order to canceled
+    const success = await client.post<boolean>(`orders/${params.orderId}/cancel`, {});
+    if (!success) {
+      return errorResult(
+        `Order ${params.orderId} could not be cancelled. It may be shipped, completed, or in a non-cancellable state.` +
+          (creditMemoId !== undefined ? ` Credit memo ${creditMemoId} was already issued for the invoiced quantities.` : "")
+      );
+    }
+  } else if (cancelLines.length > 0) {
+    await saveOrderFields(client, order.entity_id, {
+      items: cancelLines.map((p) => ({
+        item_id: p.item.item_id,
+        qty_canceled: (p.item.qty_canceled || 0) + p.cancelQty,
+      })),
+      ...cancelledTotals(order, cancelLines),
+    });
+    const stockWarning = await releaseOrderStock(
+      client,
+      order,
+      cancelLines.map((p) => ({ sku: p.item.sku, quantity: p.cancelQty }))
+    );
+    if (stockWarning) warnings.push(stockWarning);
+  }
+
+  await client.post(`orders/${params.orderId}/comments`, {
+    statusHistory: {
+      comment,
+      is_customer_notified: params.notifyCustomer ? 1 : 0,
+      is_visible_on_front: 0,
+    },
+  });
+
+  const updated = await client.get<M2Order>(`orders/${params.orderId}`);
+  return successResult({
+    order: mapM2OrderToOnx(updated, vendorNs),
+    cancelledLineItems: plan.map((p) => ({
+      id: String(p.item.item_id),
+      sku: p.sku,
+      quantityCancelled: p.cancelQty,
+      quantityRefunded: p.refundQty,
+    })),
+    orderCancelled: cancelsWholeOrder,
+    creditMemoId: creditMemoId !== undefined ? String(creditMemoId) : undefined,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  });
+}
+
+/**
+ * The order's *_canceled totals after cancelling the given quantities, at
+ * each line's row price, tax and discount per unit — what M2's own
+ * cancellation records, which a qty_canceled save alone does not.
+ */
+function cancelledTotals(order: M2Order, lines: Array<{ item: M2OrderItem; cancelQty: number }>): Record<string, number> {
+  let subtotal = 0, baseSubtotal = 0, tax = 0, baseTax = 0, discount = 0, baseDiscount = 0;
+  for (const { item, cancelQty } of lines) {
+    const share = cancelQty / item.qty_ordered;
+    subtotal += item.row_total * share;
+    baseSubtotal += (item.base_row_total ?? item.row_total) * share;
+    tax += (item.tax_amount || 0) * share;
+    baseTax += (item.base_tax_amount ?? item.tax_amount ?? 0) * share;
+    discount += Math.abs(item.discount_amount || 0) * share;
+    baseDiscount += Math.abs(item.base_discount_amount ?? item.discount_amount ?? 0) * share;
+  }
+  const total = subtotal + tax - discount;
+  const baseTotal = baseSubtotal + baseTax - baseDiscount;
+  const round = (amount: number) => Math.round(amount * 10000) / 10000;
+
+  return {
+    subtotal_canceled: round((order.subtotal_canceled || 0) + subtotal),
+    base_subtotal_canceled: round((order.base_subtotal_canceled || 0) + baseSubtotal),
+    tax_canceled: round((order.tax_canceled || 0) + tax),
+    base_tax_canceled: round((order.base_tax_canceled || 0) + baseTax),
+    discount_canceled: round((order.discount_canceled || 0) + discount),
+    base_discount_canceled: round((order.base_discount_canceled || 0) + baseDiscount),
+    total_canceled: round((order.total_canceled || 0) + total),
+    base_total_canceled: round((order.base_total_canceled || 0) + baseTotal),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * onX tool: capture-payment
+ *
+ * Input: { orderId, lineItems?, capture?, notifyCustomer?, comment? }
+ *
+ * Invoices an order (POST order/{id}/invoice), optionally for selected line
+ * quantities only. With `capture` the payment is captured online through the
+ * order's payment gateway; without it the invoice is recorded as paid offline.
+ * When `capture` is omitted, offline payment methods (check/money order, bank
+ * transfer, ONX_OFFLINE_PAYMENT_METHOD, ...) are invoiced offline and every
+ * other method is captured online.
+ *
+ * With an idempotencyKey, the invoice comment carries the key, so an invoice
+ * created by an earlier attempt is found instead of billing twice.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
+import type { AdapterConfig } from "../config.js";
+import type { IdempotencyStore } from "../idempotency-store.js";
+import type { M2Invoice, M2Order } from "../types/magento.js";
+import { mapM2OrderToOnx } from "../mappers/order-mapper.js";
+import { storeScopeSchema, idempotencyKeySchema, successResult, errorResult } from "./_helpers.js";
+import { resolveOrderLines, qtyToInvoice } from "./_orders.js";
+
+/** M2's built-in payment methods that have no gateway to capture through */
+const OFFLINE_PAYMENT_METHODS = new Set(["checkmo", "banktransfer", "cashondelivery", "purchaseorder", "free"]);
+
+const INVOICE_STATES: Record<number, string> = { 1: "pending", 2: "paid", 3: "voided" };
+
+export function registerCapturePayment(
+  server: McpServer,
+  client: MagentoClient,
+  vendorNs: string,
+  idempotency: IdempotencyStore,
+  config: Pick<AdapterConfig, "offlinePaymentMethod">
+) {
+  server.tool(
+    "capture-payment",
+    "Invoice an order and capture its payment. Pass lineItems to invoice selected quantities only (omit to invoice everything not yet invoiced). capture=true captures online through the payment gateway; capture=false records an offline (already paid) invoice.",
+    {
+      orderId: z.string().describe("ID of the order to invoice"),
+      lineItems: z.array(z.object({
+        id: z.string().optional().describe("Order line item ID (matched by SKU if omitted)"),
+        sku: z.string(),
+        quantity: z.number().min(1),
+      })).optional().describe("Line items to invoice (omit to invoice all open quantities)"),
+      capture: z.boolean().optional().describe("Capture online through the payment gateway (default: online unless the payment method is offline)"),
+      notifyCustomer: z.boolean().optional().describe("Email the invoice to the customer"),
+      comment: z.string().optional().describe("Invoice comment"),
+      ...storeScopeSchema,
+      ...idempotencyKeySchema,
+    },
+    async (params) => {
+      try {
+        const api = client.forStore(params);
+        return await idempotency.run(`capture-payment:${api.store.tenantId}`, params.idempotencyKey, params, async () => {
+          const order = await api.get<M2Order>(`orders/${params.orderId}`);
+
+          // An earlier attempt may have created the invoice before the connection dropped
+          const marker = params.idempotencyKey ? `[onX idempotency key: ${params.idempotencyKey}]` : "";
+          const findExisting = () => findInvoiceByMarker(api, params.orderId, marker);
+          let invoiceId = marker ? await findExisting() : undefined;
+
+          if (invoiceId === undefined) {
+            let items: Array<{ order_item_id: number; qty: number }> | undefined;
+            if (params.lineItems?.length) {
+              const lines = resolveOrderLines(order, params.lineItems);
+              const overages = lines
+                .filter((line) => line.quantity > qtyToInvoice(line.item))
+                .map((line) => `${line.sku} (requested ${line.quantity}, open to invoice ${qtyToInvoice(line.item)})`);
+              if (overages.length > 0) {
+                return errorResult(`capture-payment failed: requested quantity exceeds the uninvoiced quantity for ${overages.join(", ")}`);
+              }
+              items = lines.map((line) => ({ order_item_id: line.item.item_id, qty: line.quantity }));
+            }
+
+            const method = order.payment?.method || "";
+            const capture = params.capture ?? !(OFFLINE_PAYMENT_METHODS.has(method) || method === config.offlinePaymentMethod);
+            const comment = [params.comment, marker].filter(Boolean).join(" ");
+
+            invoiceId = await api.post<number>(`order/${params.orderId}/invoice`, {
+              capture,
+              items,
+              notify: params.notifyCustomer || false,
+              appendComment: !!comment,
+              comment: comment ? { comment, is_visible_on_front: 0 } : undefined,
+            }, marker ? { retry: true, recover: findExisting } : {});
+          }
+
+          const invoice = await api.get<M2Invoice>(`invoices/${invoiceId}`);
+          const updatedOrder = await api.get<M2Order>(`orders/${params.orderId}`);
+          return successResult({
+            invoice: mapInvoice(invoice, updatedOrder, vendorNs),
+            order: mapM2OrderToOnx(updatedOrder, vendorNs),
+          });
+        });
+      } catch (error: unknown) {
+        return errorResult(`capture-payment failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  );
+}
+
+/** Find an invoice on the order whose comment carries the given idempotency marker. */
+async function findInvoiceByMarker(client: MagentoClient, orderId: string, marker: string): Promise<number | undefined> {
+  const result = await client.get<MagentoListResponse<M2Invoice>>("invoices", {
+    filterGroups: [{ filters: [{ field: "order_id", value: orderId, conditionType: "eq" }] }],
+  });
+  const match = (result.items || []).find((inv) => (inv.comments || []).some((c) => c.comment.includes(marker)));
+  return match?.entity_id;
+}
+
+function mapInvoice(invoice: M2Invoice, order: M2Order, vendorNs: string): Record<string, unknown> {
+  return {
+    id: String(invoice.entity_id),
+    orderId: String(invoice.order_id),
+    status: INVOICE_STATES[invoice.state || 0] || "pending",
+    amount: invoice.grand_total || 0,
+    currency: invoice.order_currency_code || order.order_currency_code,
+    method: order.payment?.method || "",
+    transactionId: invoice.transaction_id || "",
+    lineItems: (invoice.items || []).map((item) => ({
+      id: String(item.order_item_id),
+      sku: item.sku || "",
+      name: item.name || "",
+      quantity: item.qty,
+    })),
+    createdAt: invoice.created_at,
+    customFields: [
+      { name: `${vendorNs}:invoice_id`, value: String(invoice.entity_id) },
+      { name: `${vendorNs}:increment_id`, value: invoice.increment_id || "" },
+    ],
+  };
+}
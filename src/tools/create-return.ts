@@ -7,14 +7,65 @@
  * On Adobe Commerce, creates an RMA. On Magento Open Source, creates a credit memo.
  * Accepts the full onX Return shape; fields that M2 doesn't natively support are
  * acknowledged but may not persist.
+ *
+ * The credit memo refunds by `refundMethod`: original_payment goes online
+ * against a captured invoice covering the items (offline, with a warning,
+ * when there is none), offline records the refund without moving money, and
+ * store_credit creates an offline credit memo and hands the amount to the
+ * ONX_STORE_CREDIT_WEBHOOK_URL hook; if the hook fails, so does the call. restockingFee and adjustmentPositive
+ * become the credit memo's negative and positive adjustments. The amounts
+ * reported are what M2 refunded; a caller refundAmount that differs is
+ * flagged in `warnings`.
+ *
+ * An exchange (outcome "exchange" with exchangeLineItems) also creates the
+ * replacement order, with the original order's customer and addresses and
+ * its shipping method at no charge. Exchange lines are priced at their
+ * unitPrice, or the catalog price when it is omitted. The exchange is paid
+ * with the returned items: on the credit memo path their value is withheld
+ * from the refund (as a negative adjustment, or by refunding offline when the
+ * exchange takes all of it); on the RMA path the items are resolved as
+ * "exchange", which update-return does not refund on approval. Once the
+ * returned value covers the exchange, its order is invoiced offline;
+ * otherwise the amount still due is reported in `warnings`. Stock is checked
+ * and reserved as for create-sales-order.
+ * Both orders get a comment naming the other, and the replacement order's
+ * ID and number are set on each exchange line.
+ *
+ * The outcome, refund method and idempotency key are recorded as markers in
+ * an internal credit memo comment that is left out of the customer email;
+ * customerNote is added as a separate, customer-visible comment. With an
+ * idempotencyKey, a replayed request finds the RMA or credit memo created by
+ * an earlier attempt through that marker (an RMA carries it in an internal
+ * comment); the replacement order carries "<key>:exchange" in its first
+ * status comment for the same reason, and the steps after its creation are
+ * recorded under the key so a retry only runs the ones not yet done.
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { MagentoApiError } from "../client/magento-client.js";
-import type { MagentoClient } from "../client/magento-client.js";
-import type { M2Rma, M2CreditMemo } from "../types/magento.js";
-import { addressSchema, customFieldSchema, successResult, errorResult } from "./_helpers.js";
+import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
+import type { AdapterConfig } from "../config.js";
+import type { IdempotencyCheckpoint, IdempotencyStore } from "../idempotency-store.js";
+import type { M2Rma, M2CreditMemo, M2Order, M2Product } from "../types/magento.js";
+import { mapM2Address } from "../mappers/order-mapper.js";
+import {
+  addressSchema,
+  customFieldSchema,
+  storeScopeSchema,
+  idempotencyKeySchema,
+  idsFilter,
+  successResult,
+  errorResult,
+} from "./_helpers.js";
+import { adminOrderEmail, buildAdminOrderEntity, findOrderByMarker, resolveOrderLines, type AdminOrderInput } from "./_orders.js";
+import { findStockShortfalls, reserveOrderStock, type StockShortfall } from "./_inventory.js";
+import { findCreditMemoByMarker, findRmaByMarker, getRmaOptionLabels, issueCreditMemo, issueStoreCredit, rmaOptionValue } from "./_returns.js";
+
+const REFUND_METHODS = ["original_payment", "offline", "store_credit"];
+
+/** Amounts closer than this are treated as equal (M2 stores 4 decimals) */
+const AMOUNT_EPSILON = 0.005;
 
 const inspectionSchema = z.object({
   conditionCategory: z.string().optional(),
@@ -46,7 +97,7 @@ const exchangeLineItemSchema = z.object({
   sku: z.string(),
   name: z.string().optional(),
   quantity: z.number().min(1),
-  unitPrice: z.number().optional(),
+  unitPrice: z.number().min(0).optional().describe("Price charged for the exchange line (default: the catalog price)"),
 });
 
 const returnLabelSchema = z.object({
@@ -92,12 +143,13 @@ const createReturnInputSchema = z.object({
   returnTotal: z.number().optional(),
   exchangeTotal: z.number().optional(),
   refundAmount: z.number().optional(),
-  refundMethod: z.string().optional(),
+  refundMethod: z.string().optional().describe("original_payment (online against the captured invoice, else offline), offline or store_credit; defaults to store_credit for outcome store_credit, else original_payment"),
   refundStatus: z.string().optional(),
   refundTransactionId: z.string().optional(),
   shippingRefundAmount: z.number().optional(),
   returnShippingFees: z.number().optional(),
   restockingFee: z.number().optional(),
+  adjustmentPositive: z.number().optional().describe("Extra amount refunded on top of the returned items (credit memo path)"),
 
   // Dates
   requestedAt: z.string().optional(),
@@ -117,93 +169,228 @@ const createReturnInputSchema = z.object({
 
 type CreateReturnInput = z.infer<typeof createReturnInputSchema>;
 
-export function registerCreateReturn(server: McpServer, client: MagentoClient, vendorNs: string) {
+interface ExchangePlan {
+  original: M2Order;
+  order: AdminOrderInput;
+  shortfalls: StockShortfall[];
+  /** Total of the replacement order */
+  value: number;
+  /** What the returned items were paid for on the original order, tax and discounts included */
+  returnedValue: number;
+}
+
+export function registerCreateReturn(
+  server: McpServer,
+  client: MagentoClient,
+  vendorNs: string,
+  idempotency: IdempotencyStore,
+  config: Pick<AdapterConfig, "offlinePaymentMethod" | "oversellPolicy" | "storeCreditWebhookUrl" | "timeout">
+) {
   server.tool(
     "create-return",
-    "Create returns for order items with refund/exchange tracking. On Adobe Commerce creates an RMA; on Open Source creates a credit memo.",
+    "Create returns for order items with refund/exchange tracking. On Adobe Commerce creates an RMA; on Open Source creates a credit memo. Exchanges (outcome \"exchange\" with exchangeLineItems) also create the replacement order, priced at the exchange lines' unitPrice (default: catalog price) and paid with the returned items' value, which is not refunded.",
     {
       return: createReturnInputSchema,
+      ...storeScopeSchema,
+      ...idempotencyKeySchema,
     },
     async (params) => {
       try {
-        const ret = params.return;
-
-        // Try RMA endpoint first (Adobe Commerce)
-        try {
-          const rma = await client.post<M2Rma>("returns", {
-            rmaDataInterface: {
-              order_id: parseInt(ret.orderId, 10),
-              items: ret.returnLineItems.map((item) => ({
-                order_item_id: parseInt(item.orderLineItemId, 10),
-                qty_requested: item.quantityReturned,
-                reason: item.returnReason,
-                condition: item.inspection?.conditionCategory || "",
-              })),
-              comments: ret.customerNote
-                ? [{ comment: ret.customerNote, is_customer_notified: true, is_visible_on_front: true }]
-                : [],
-            },
-          });
+        const api = client.forStore(params);
+        return await idempotency.run(`create-return:${api.store.tenantId}`, params.idempotencyKey, params, async (checkpoint) => {
+          const ret = params.return;
+          const refundMethod = ret.refundMethod || (ret.outcome === "store_credit" ? "store_credit" : "original_payment");
+          if (!REFUND_METHODS.includes(refundMethod)) {
+            return errorResult(
+              `create-return failed: unsupported refundMethod "${refundMethod}" (use ${REFUND_METHODS.join(", ")})`
+            );
+          }
 
-          return successResult({
-            return: mapRmaToOnxReturn(rma, ret, vendorNs),
-          });
-        } catch (rmaError: unknown) {
-          // RMA not available — fall back to credit memo (Open Source)
-          if (
-            rmaError instanceof MagentoApiError &&
-            (rmaError.statusCode === 404 || rmaError.statusCode === 403)
-          ) {
-            const creditmemo = await client.post<M2CreditMemo | number>(`order/${ret.orderId}/refund`, {
-              items: ret.returnLineItems.map((item) => ({
-                order_item_id: parseInt(item.orderLineItemId, 10),
-                qty: item.quantityReturned,
-              })),
-              notify: true,
-              comment: {
-                comment: ret.customerNote || `Return via onX: ${ret.outcome}`,
-                is_visible_on_front: 0,
-              },
-              arguments: {
-                shipping_amount: ret.shippingRefundAmount || 0,
-                adjustment_positive: 0,
-                adjustment_negative: ret.restockingFee || 0,
-              },
-            });
-
-            const cmId = typeof creditmemo === "object" ? creditmemo.entity_id : creditmemo;
-
-            return successResult({
-              return: {
-                id: String(cmId),
-                orderId: ret.orderId,
-                status: "refunded",
-                outcome: ret.outcome,
-                returnLineItems: ret.returnLineItems,
-                exchangeLineItems: ret.exchangeLineItems || [],
-                totalQuantity: ret.totalQuantity || ret.returnLineItems.reduce(
-                  (sum, li) => sum + li.quantityReturned, 0
-                ),
-                refundAmount: ret.refundAmount,
-                refundMethod: "original_payment",
-                refundStatus: "refunded",
-                shippingRefundAmount: ret.shippingRefundAmount || 0,
-                returnShippingFees: ret.returnShippingFees || 0,
-                restockingFee: ret.restockingFee || 0,
-                customerNote: ret.customerNote,
-                internalNote: ret.internalNote || "RMA not available — processed as credit memo (Magento Open Source)",
-                tags: ret.tags || [],
-                customFields: [
-                  ...(ret.customFields || []),
-                  { name: `${vendorNs}:return_type`, value: "credit_memo" },
+          // Plan the replacement order first, so a stock problem fails the call before anything is written
+          let exchange: ExchangePlan | undefined;
+          if (ret.outcome === "exchange" && ret.exchangeLineItems?.length) {
+            exchange = await planExchange(api, ret);
+            // A retry keeps the first attempt's stock decision: its own reservation would skew a new check
+            const decided = checkpoint.saved?.exchangeShortfalls as StockShortfall[] | undefined;
+            if (decided) {
+              exchange.shortfalls = decided;
+            } else if (exchange.shortfalls.length > 0 && config.oversellPolicy === "reject") {
+              return errorResult(
+                `create-return failed: insufficient salable quantity for the exchange: ${exchange.shortfalls
+                  .map((s) => `${s.sku} (requested ${s.requested}${s.salable !== undefined ? `, salable ${s.salable}` : ""})`)
+                  .join(", ")}`
+              );
+            } else {
+              await checkpoint.save({ exchangeShortfalls: exchange.shortfalls });
+            }
+          }
+
+          let result: Record<string, unknown>;
+          let returnLabel: string;
+          // How much of the returned items' value pays for the exchange instead of being refunded
+          let exchangeCredit = 0;
+          const warnings: string[] = [];
+          const marker = params.idempotencyKey ? `[onX idempotency key: ${params.idempotencyKey}]` : "";
+
+          // Try RMA endpoint first (Adobe Commerce)
+          try {
+            // An earlier attempt may have created the RMA before the connection dropped
+            const findExistingRma = () => findRmaByMarker(api, ret.orderId, marker);
+            const rma = (marker ? await findExistingRma() : undefined) ?? await api.post<M2Rma>("returns", {
+              rmaDataInterface: {
+                order_id: parseInt(ret.orderId, 10),
+                items: await rmaItems(api, ret.returnLineItems, exchange !== undefined),
+                comments: [
+                  ...(ret.customerNote
+                    ? [{ comment: ret.customerNote, is_customer_notified: true, is_visible_on_front: true }]
+                    : []),
+                  ...(marker
+                    ? [{ comment: `Return via onX ${marker}`, is_customer_notified: false, is_visible_on_front: false }]
+                    : []),
                 ],
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
               },
-            });
+            }, marker ? { retry: true, recover: findExistingRma } : {});
+
+            result = mapRmaToOnxReturn(rma, ret, vendorNs);
+            returnLabel = `return #${rma.increment_id || rma.entity_id}`;
+            if (exchange) {
+              exchangeCredit = Math.min(exchange.value, exchange.returnedValue);
+              if (exchange.returnedValue - exchange.value > AMOUNT_EPSILON) {
+                warnings.push(
+                  `The returned items are worth ${exchange.returnedValue}, ${roundAmount(exchange.returnedValue - exchange.value)} more than the exchange; items resolved as exchange are not refunded on approval, so refund the difference separately`
+                );
+              }
+            }
+          } catch (rmaError: unknown) {
+            // RMA not available — fall back to credit memo (Open Source)
+            if (
+              !(rmaError instanceof MagentoApiError) ||
+              (rmaError.statusCode !== 404 && rmaError.statusCode !== 403)
+            ) {
+              throw rmaError;
+            }
+
+            if (refundMethod === "store_credit" && !config.storeCreditWebhookUrl) {
+              return errorResult(
+                "create-return failed: refundMethod store_credit needs ONX_STORE_CREDIT_WEBHOOK_URL — Magento's REST API cannot credit a customer balance"
+              );
+            }
+
+            // The exchange is paid first; M2 rejects a credit memo with a zero total, so
+            // when the exchange takes everything the credit memo is recorded offline instead
+            const refundable = exchange
+              ? exchange.returnedValue + (ret.shippingRefundAmount || 0) + (ret.adjustmentPositive || 0) - (ret.restockingFee || 0)
+              : 0;
+            exchangeCredit = exchange ? roundAmount(Math.min(exchange.value, Math.max(0, refundable))) : 0;
+            const appliedInFull = exchange !== undefined && exchangeCredit >= refundable - AMOUNT_EPSILON;
+
+            // An earlier attempt may have created the credit memo before the connection dropped
+            const findExisting = () => findCreditMemoByMarker(api, ret.orderId, marker);
+            let cmId = marker ? await findExisting() : undefined;
+
+            let online = false;
+            if (cmId === undefined) {
+              ({ creditMemoId: cmId, online } = await issueCreditMemo(api, ret.orderId, {
+                items: ret.returnLineItems.map((item) => ({
+                  order_item_id: parseInt(item.orderLineItemId, 10),
+                  qty: item.quantityReturned,
+                })),
+                online: refundMethod === "original_payment" && !appliedInFull,
+                shippingAmount: ret.shippingRefundAmount,
+                adjustmentPositive: ret.adjustmentPositive,
+                adjustmentNegative: appliedInFull
+                  ? ret.restockingFee
+                  : roundAmount((ret.restockingFee || 0) + exchangeCredit) || undefined,
+                comment: [
+                  "Return via onX",
+                  exchangeCredit > 0 && `(${exchangeCredit} applied to the exchange)`,
+                  `[onX outcome: ${ret.outcome}]`,
+                  `[onX refund method: ${refundMethod}]`,
+                  marker,
+                ].filter(Boolean).join(" "),
+                customerNote: ret.customerNote,
+                notify: true,
+              }, marker ? { retry: true, recover: findExisting } : {}));
+            }
+
+            const creditMemo = await api.get<M2CreditMemo>(`creditmemos/${cmId}`);
+            online = online || !!creditMemo.transaction_id;
+            if (refundMethod === "original_payment" && !online && !appliedInFull) {
+              warnings.push("No captured invoice covers the returned items — refunded offline");
+            }
+
+            const refundStatus = creditMemo.state === 1 ? "pending" : "refunded";
+            const hookUrl = config.storeCreditWebhookUrl;
+            if (refundMethod === "store_credit" && hookUrl && !appliedInFull) {
+              try {
+                await checkpoint.step("storeCredit", () => issueStoreCredit(api, hookUrl, creditMemo, config.timeout));
+              } catch (error: unknown) {
+                // A failed call is not recorded: a retry with the same key reuses the credit memo and calls the hook again
+                return errorResult(
+                  `create-return failed: credit memo ${creditMemo.increment_id || cmId} was created, but store credit was not issued: ${
+                    error instanceof Error ? error.message : String(error)
+                  }${params.idempotencyKey ? " — retry with the same idempotencyKey to issue it" : ""}`
+                );
+              }
+            }
+
+            // Money that went back to the customer; the rest of the credit memo paid for the exchange
+            const refunded = appliedInFull ? 0 : creditMemo.grand_total || 0;
+            if (ret.refundAmount !== undefined && Math.abs(refunded - ret.refundAmount) > AMOUNT_EPSILON) {
+              warnings.push(`Magento refunded ${refunded}, not the requested refundAmount ${ret.refundAmount}`);
+            }
+
+            returnLabel = `return (credit memo ${creditMemo.increment_id || cmId})`;
+            result = {
+              id: String(cmId),
+              returnNumber: creditMemo.increment_id,
+              orderId: ret.orderId,
+              status: refundStatus,
+              outcome: ret.outcome,
+              returnLineItems: ret.returnLineItems,
+              exchangeLineItems: ret.exchangeLineItems || [],
+              totalQuantity: ret.totalQuantity || ret.returnLineItems.reduce(
+                (sum, li) => sum + li.quantityReturned, 0
+              ),
+              returnTotal: creditMemo.subtotal,
+              refundAmount: refunded,
+              refundMethod: refundMethod === "store_credit" ? "store_credit" : online ? "original_payment" : "offline",
+              refundStatus,
+              refundTransactionId: creditMemo.transaction_id,
+              shippingRefundAmount: creditMemo.shipping_amount || 0,
+              returnShippingFees: ret.returnShippingFees || 0,
+              restockingFee: ret.restockingFee || 0,
+              customerNote: ret.customerNote,
+              internalNote: ret.internalNote || "RMA not available — processed as credit memo (Magento Open Source)",
+              tags: ret.tags || [],
+              customFields: [
+                ...(ret.customFields || []),
+                { name: `${vendorNs}:return_type`, value: "credit_memo" },
+                { name: `${vendorNs}:creditmemo_id`, value: String(cmId) },
+                ...(exchangeCredit > 0 ? [{ name: `${vendorNs}:exchange_credit`, value: String(exchangeCredit) }] : []),
+              ],
+              createdAt: creditMemo.created_at,
+              updatedAt: creditMemo.updated_at,
+            };
+          }
+
+          if (exchange) {
+            const exchangeOrder = await placeExchangeOrder(
+              api, exchange, exchangeCredit, returnLabel, config, checkpoint, params.idempotencyKey, warnings
+            );
+            result.exchangeLineItems = (ret.exchangeLineItems || []).map((item) => ({
+              ...item,
+              exchangeOrderId: String(exchangeOrder.entity_id),
+              exchangeOrderName: exchangeOrder.increment_id,
+            }));
+            result.exchangeTotal = exchangeOrder.grand_total;
           }
-          throw rmaError;
-        }
+
+          return successResult({
+            return: result,
+            warnings: warnings.length > 0 ? warnings : undefined,
+          });
+        });
       } catch (error: unknown) {
         return errorResult(`create-return failed: ${error instanceof Error ? error.message : String(error)}`);
       }
@@ -211,6 +398,174 @@ export function registerCreateReturn(server: McpServer, client: MagentoClient, v
   );
 }
 
+/**
+ * The replacement order for an exchange, built from the original order's
+ * customer, addresses and shipping method, the salability of its lines, and
+ * the value of the returned items that pays for it.
+ */
+async function planExchange(client: MagentoClient, ret: CreateReturnInput): Promise<ExchangePlan> {
+  const original = await client.get<M2Order>(`orders/${ret.orderId}`);
+  const exchangeLines = ret.exchangeLineItems || [];
+
+  // Lines without a unitPrice are charged the catalog price
+  const unpriced = [...new Set(exchangeLines.filter((item) => item.unitPrice === undefined).map((item) => item.sku))];
+  const catalogPrices = new Map<string, number>();
+  if (unpriced.length > 0) {
+    const products = await client.get<MagentoListResponse<M2Product>>("products", {
+      filterGroups: [{ filters: [idsFilter("sku", unpriced)] }],
+      pageSize: unpriced.length,
+    });
+    for (const product of products.items || []) catalogPrices.set(product.sku, product.price);
+  }
+
+  const lineItems = exchangeLines.map((item) => {
+    const unitPrice = item.unitPrice ?? catalogPrices.get(item.sku);
+    if (unitPrice === undefined) {
+      throw new Error(`exchange line ${item.sku} has no unitPrice and is not in the catalog`);
+    }
+    return { sku: item.sku, name: item.name, quantity: item.quantity, unitPrice };
+  });
+
+  // What the customer paid for the returned items: the row total with its tax, less its discount
+  const returnedValue = resolveOrderLines(
+    original,
+    ret.returnLineItems.map((item) => ({ id: item.orderLineItemId, sku: item.sku, quantity: item.quantityReturned }))
+  ).reduce((sum, { item, quantity }) => {
+    const rowPaid = item.row_total + (item.tax_amount || 0) - Math.abs(item.discount_amount || 0);
+    return sum + (item.qty_ordered > 0 ? (rowPaid / item.qty_ordered) * quantity : 0);
+  }, 0);
+
+  // M2 stores the shipping method as "<carrier>_<method>"
+  const [carrierCode, ...methodCode] = (original.shipping_method || "").split("_");
+  const shippingAddress = original.extension_attributes?.shipping_assignments?.[0]?.shipping?.address;
+  const order: AdminOrderInput = {
+    lineItems,
+    customer: {
+      email: original.customer_email,
+      firstName: original.customer_firstname,
+      lastName: original.customer_lastname,
+    },
+    customerId: original.customer_id,
+    billingAddress: original.billing_address ? mapM2Address(original.billing_address) : undefined,
+    shippingAddress: shippingAddress ? mapM2Address(shippingAddress) : undefined,
+    currency: original.order_currency_code,
+    shippingCarrier: original.shipping_description,
+    shippingCode: carrierCode || undefined,
+    shippingClass: methodCode.join("_") || undefined,
+    shippingPrice: 0,
+  };
+
+  return {
+    original,
+    order,
+    shortfalls: await findStockShortfalls(client, lineItems),
+    value: roundAmount(lineItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0)),
+    returnedValue: roundAmount(returnedValue),
+  };
+}
+
+/**
+ * Create the replacement order, reserve its stock and link it to the
+ * original order with a comment on each. The order is invoiced offline when
+ * `credit` (the returned value applied to it) covers it. Each step after
+ * creation runs once per idempotency key, so a retry resumes where an
+ * earlier attempt stopped. Problems after the order exists are added to
+ * `warnings`.
+ */
+async function placeExchangeOrder(
+  client: MagentoClient,
+  plan: ExchangePlan,
+  credit: number,
+  returnLabel: string,
+  config: Pick<AdapterConfig, "offlinePaymentMethod">,
+  checkpoint: IdempotencyCheckpoint,
+  idempotencyKey: string | undefined,
+  warnings: string[]
+): Promise<M2Order> {
+  const backordered = plan.shortfalls.map((s) => `${s.sku} (requested ${s.requested})`).join(", ");
+  const marker = idempotencyKey ? `[onX idempotency key: ${idempotencyKey}:exchange]` : "";
+  const findExisting = () => findOrderByMarker(client, adminOrderEmail(plan.order), marker);
+
+  // An earlier attempt may have created the order before the connection dropped
+  const savedId = checkpoint.saved?.exchangeOrderId;
+  const existing = typeof savedId === "number"
+    ? await client.get<M2Order>(`orders/${savedId}`)
+    : marker ? await findExisting() : undefined;
+  const order = existing ?? await client.post<M2Order>(
+    "orders",
+    {
+      entity: buildAdminOrderEntity(plan.order, client.store, config.offlinePaymentMethod, {
+        comment: [
+          [`Exchange for order #${plan.original.increment_id}, ${returnLabel}`, backordered && `Backordered via onX: ${backordered}`]
+            .filter(Boolean)
+            .join(". "),
+          marker,
+        ].filter(Boolean).join(" "),
+      }),
+    },
+    marker ? { retry: true, recover: findExisting } : {}
+  );
+  await checkpoint.save({ exchangeOrderId: order.entity_id });
+
+  const stockWarning = await checkpoint.step("exchangeReserveStock", () =>
+    reserveOrderStock(client, order, plan.order.lineItems)
+  );
+  if (stockWarning) warnings.push(stockWarning);
+  if (backordered) {
+    warnings.push(`Exchange order ${order.increment_id} is backordered: ${backordered}`);
+  }
+
+  const comment = (orderId: number, text: string) =>
+    client.post(`orders/${orderId}/comments`, {
+      statusHistory: { comment: text, is_customer_notified: 0, is_visible_on_front: 0 },
+    });
+  await checkpoint.step("exchangeLink", async () => {
+    await comment(plan.original.entity_id, `Exchange order #${order.increment_id} created for ${returnLabel}`);
+  });
+
+  const due = roundAmount(plan.value - credit);
+  await checkpoint.step("exchangePayment", async () => {
+    if (due <= AMOUNT_EPSILON) {
+      await client.post(`order/${order.entity_id}/invoice`, {
+        capture: false,
+        notify: false,
+        appendComment: true,
+        comment: { comment: `Paid with ${returnLabel} via onX`, is_visible_on_front: 0 },
+      });
+    } else {
+      await comment(order.entity_id, `${credit} paid with ${returnLabel} via onX; ${due} due`);
+    }
+  });
+  if (due > AMOUNT_EPSILON) {
+    warnings.push(`Exchange order ${order.increment_id} has ${due} due after the ${credit} paid by the return; no invoice was created`);
+  }
+
+  // Reloaded so the returned total and state include the invoice
+  return client.get<M2Order>(`orders/${order.entity_id}`);
+}
+
+/**
+ * RMA items for the returned lines, with reason and condition labels resolved
+ * to M2 option values. Items returned for an exchange are resolved as such.
+ */
+async function rmaItems(client: MagentoClient, lines: CreateReturnInput["returnLineItems"], exchanged: boolean) {
+  const labels = await getRmaOptionLabels(client);
+  return lines.map((item) => ({
+    order_item_id: parseInt(item.orderLineItemId, 10),
+    qty_requested: item.quantityReturned,
+    reason: rmaOptionValue(labels.reason, item.returnReason),
+    condition: item.inspection?.conditionCategory
+      ? rmaOptionValue(labels.condition, item.inspection.conditionCategory)
+      : "",
+    ...(exchanged ? { resolution: rmaOptionValue(labels.resolution, "exchange") } : {}),
+  }));
+}
+
+/** Round to M2's four stored decimals */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 10000) / 10000;
+}
+
 function mapRmaToOnxReturn(rma: M2Rma, input: CreateReturnInput, vendorNs: string): Record<string, unknown> {
   const now = new Date().toISOString();
   return {
@@ -2,163 +2,236 @@
  * onX tool: create-sales-order
  *
  * Matches: CreateSalesOrderInputSchema from reference server
- * Input: { order: OrderSchema (minus immutable fields: id, createdAt, updatedAt, tenantId) }
+ * Input: { order: OrderSchema (minus immutable fields: id, createdAt, updatedAt, tenantId), mode? }
  *
- * Creates a new order via M2's admin POST /orders endpoint.
- * Note: The admin API requires explicit item prices — the cart pricing pipeline is bypassed.
+ * Two ways to create the order, chosen per call with `mode` or by
+ * ONX_ORDER_CREATION_MODE:
+ *   - admin (default): M2's admin POST /orders endpoint. Requires explicit item
+ *     prices — the cart pricing pipeline is bypassed and the caller's totals are trusted.
+ *   - cart: builds a quote through the carts API and places it, so M2 computes
+ *     prices, tax, catalog/cart price rules and coupons (see _cart-checkout.ts).
+ *
+ * Admin-mode orders are checked against salable quantity first and rejected
+ * or backordered per ONX_OVERSELL_POLICY; once placed, their legacy stock is
+ * decremented the way a storefront order's would be. MSI reservations cannot
+ * be written over REST, so an MSI order is marked "[onX stock not reserved]"
+ * and a warning is returned.
+ *
+ * Payments collected outside Magento (`payments[]`, e.g. marketplace orders)
+ * are recorded as a paid offline invoice once they cover the order total, so
+ * the order can complete after shipping. Admin-mode orders carry
+ * ONX_OFFLINE_PAYMENT_METHOD as their M2 payment method.
+ *
+ * externalId is saved as the order's ext_order_id. With an idempotencyKey,
+ * an admin-mode order carries the key in an internal status comment and a
+ * cart is recorded under the key before it is placed, so a retry finds the
+ * order an earlier attempt created (by the comment, or by quote ID) instead
+ * of creating a duplicate. The order ID is then recorded too, and each step
+ * after creation — stock reservation, comments, payments — is recorded as it
+ * finishes, so a retry resumes with the steps that did not run.
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { MagentoClient } from "../client/magento-client.js";
+import type { AdapterConfig } from "../config.js";
+import type { IdempotencyStore } from "../idempotency-store.js";
 import type { M2Order } from "../types/magento.js";
-import { mapM2OrderToOnx } from "../mappers/order-mapper.js";
-import { addressSchema, customFieldSchema, successResult, errorResult } from "./_helpers.js";
+import { mapM2OrderToOnx, orderNoteComment } from "../mappers/order-mapper.js";
+import { adminOrderEmail, buildAdminOrderEntity, findOrderByMarker, findOrderByQuoteId, saveOrderFields } from "./_orders.js";
+import { placeCartOrder } from "./_cart-checkout.js";
+import { findStockShortfalls, reserveOrderStock, type StockShortfall } from "./_inventory.js";
+import { addressSchema, customFieldSchema, storeScopeSchema, idempotencyKeySchema, successResult, errorResult } from "./_helpers.js";
 
 const lineItemSchema = z.object({
   id: z.string().optional(),
   sku: z.string(),
+  parentSku: z.string().optional().describe("Configurable parent SKU when sku is a child variant (cart mode)"),
   quantity: z.number().min(1),
-  unitPrice: z.number().describe("Unit price (required — admin API bypasses cart pricing)"),
+  unitPrice: z.number().optional().describe("Unit price (required in admin mode — ignored in cart mode, where M2 prices the item)"),
   unitDiscount: z.number().optional(),
   totalPrice: z.number().optional(),
   name: z.string().optional(),
   customFields: z.array(customFieldSchema).optional(),
 });
 
-type OnxAddress = z.infer<typeof addressSchema>;
+const orderSchema = z.object({
+  // All Order fields from the onX spec (minus immutable: id, createdAt, updatedAt, tenantId)
+  externalId: z.string().optional().describe("External order ID from source system"),
+  name: z.string().optional().describe("Order name/number"),
+  status: z.string().optional(),
+  lineItems: z.array(lineItemSchema).describe("Order line items (unitPrice required in admin mode)"),
+  customer: z.object({
+    email: z.string().optional(),
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+  }).optional(),
+  billingAddress: addressSchema.optional(),
+  currency: z.string().optional(),
+  customFields: z.array(customFieldSchema).optional(),
+  discounts: z.array(z.object({}).passthrough()).optional().describe("Discounts; in cart mode a `code` is applied as a coupon"),
+  orderDiscount: z.number().optional(),
+  orderNote: z.string().optional(),
+  orderSource: z.string().optional(),
+  orderTax: z.number().optional(),
+  paymentStatus: z.string().optional(),
+  payments: z.array(z.object({
+    method: z.string().optional().describe("Payment method used in the source channel (e.g. marketplace name)"),
+    amount: z.number().optional().describe("Amount paid (omit for payment in full)"),
+    transactionId: z.string().optional(),
+  }).passthrough()).optional().describe("Payments already collected; recorded as a paid offline invoice once they cover the order total"),
+  refunds: z.array(z.object({}).passthrough()).optional(),
+  subTotalPrice: z.number().optional(),
+  tags: z.array(z.string()).optional(),
+  totalPrice: z.number().optional(),
+
+  // ShippingInfo fields
+  shippingAddress: addressSchema.optional(),
+  shippingCarrier: z.string().optional(),
+  shippingClass: z.string().optional(),
+  shippingCode: z.string().optional(),
+  shippingNote: z.string().optional(),
+  shippingPrice: z.number().optional(),
+  giftNote: z.string().optional(),
+  incoterms: z.string().optional(),
+});
+
+type OrderInput = z.infer<typeof orderSchema>;
 
-export function registerCreateSalesOrder(server: McpServer, client: MagentoClient, vendorNs: string) {
+export function registerCreateSalesOrder(
+  server: McpServer,
+  client: MagentoClient,
+  vendorNs: string,
+  idempotency: IdempotencyStore,
+  config: Pick<AdapterConfig, "orderCreationMode" | "cartPaymentMethod" | "oversellPolicy" | "offlinePaymentMethod">
+) {
   server.tool(
     "create-sales-order",
-    "Creates a new order via the admin API. Required: line items with SKUs, quantities, and unitPrice (admin API bypasses the cart pricing pipeline, so explicit prices are required).",
+    "Creates a new order. In admin mode (default) line items need SKUs, quantities and unitPrice, and the caller's totals are used as-is. In cart mode Magento prices the order itself — tax, price rules and coupon codes from discounts — and picks the requested or cheapest shipping method.",
     {
-      order: z.object({
-        // All Order fields from the onX spec (minus immutable: id, createdAt, updatedAt, tenantId)
-        externalId: z.string().optional().describe("External order ID from source system"),
-        name: z.string().optional().describe("Order name/number"),
-        status: z.string().optional(),
-        lineItems: z.array(lineItemSchema).describe("Order line items (unitPrice required — admin API bypasses cart pricing)"),
-        customer: z.object({
-          email: z.string().optional(),
-          firstName: z.string().optional(),
-          lastName: z.string().optional(),
-        }).optional(),
-        billingAddress: addressSchema.optional(),
-        currency: z.string().optional(),
-        customFields: z.array(customFieldSchema).optional(),
-        discounts: z.array(z.object({}).passthrough()).optional(),
-        orderDiscount: z.number().optional(),
-        orderNote: z.string().optional(),
-        orderSource: z.string().optional(),
-        orderTax: z.number().optional(),
-        paymentStatus: z.string().optional(),
-        payments: z.array(z.object({}).passthrough()).optional(),
-        refunds: z.array(z.object({}).passthrough()).optional(),
-        subTotalPrice: z.number().optional(),
-        tags: z.array(z.string()).optional(),
-        totalPrice: z.number().optional(),
-
-        // ShippingInfo fields
-        shippingAddress: addressSchema.optional(),
-        shippingCarrier: z.string().optional(),
-        shippingClass: z.string().optional(),
-        shippingCode: z.string().optional(),
-        shippingNote: z.string().optional(),
-        shippingPrice: z.number().optional(),
-        giftNote: z.string().optional(),
-        incoterms: z.string().optional(),
-      }),
+      order: orderSchema,
+      mode: z.enum(["admin", "cart"]).optional().describe("Creation mode (defaults to the adapter's ONX_ORDER_CREATION_MODE)"),
+      ...storeScopeSchema,
+      ...idempotencyKeySchema,
     },
     async (params) => {
       try {
-        const order = params.order;
-        const email = order.customer?.email || order.billingAddress?.email || "guest@example.com";
-
-        // Build M2 order items
-        const m2Items = order.lineItems.map((item) => ({
-          sku: item.sku,
-          name: item.name || item.sku,
-          qty_ordered: item.quantity,
-          price: item.unitPrice || 0,
-          base_price: item.unitPrice || 0,
-          row_total: item.totalPrice ?? (item.unitPrice || 0) * item.quantity,
-          base_row_total: item.totalPrice ?? (item.unitPrice || 0) * item.quantity,
-          product_type: "simple",
-        }));
-
-        const subtotal = order.subTotalPrice ?? m2Items.reduce((sum, i) => sum + i.row_total, 0);
-        const shippingAmount = order.shippingPrice || 0;
-        const discount = order.orderDiscount || 0;
-        const tax = order.orderTax || 0;
-        const grandTotal = order.totalPrice ?? (subtotal + shippingAmount + tax - discount);
-
-        const billingAddr = mapOnxAddressToM2(order.billingAddress || {}, email);
-        const shippingAddr = mapOnxAddressToM2(order.shippingAddress || order.billingAddress || {}, email);
-
-        const carrierCode = order.shippingCode || order.shippingCarrier || "flatrate";
-        const methodCode = order.shippingClass || "flatrate";
-        const shippingMethod = `${carrierCode}_${methodCode}`;
-
-        const entity: Record<string, unknown> = {
-          customer_email: email,
-          customer_firstname: order.customer?.firstName || billingAddr.firstname,
-          customer_lastname: order.customer?.lastName || billingAddr.lastname,
-          base_currency_code: order.currency || "USD",
-          global_currency_code: order.currency || "USD",
-          order_currency_code: order.currency || "USD",
-          store_currency_code: order.currency || "USD",
-          store_id: 1,
-          state: order.status || "new",
-          status: order.status || "pending",
-          is_virtual: 0,
-          subtotal,
-          base_subtotal: subtotal,
-          grand_total: grandTotal,
-          base_grand_total: grandTotal,
-          shipping_amount: shippingAmount,
-          base_shipping_amount: shippingAmount,
-          tax_amount: tax,
-          base_tax_amount: tax,
-          discount_amount: discount > 0 ? -discount : 0,
-          base_discount_amount: discount > 0 ? -discount : 0,
-          shipping_description: order.shippingCarrier || "Flat Rate - Fixed",
-          shipping_method: shippingMethod,
-          items: m2Items,
-          billing_address: billingAddr,
-          payment: { method: "checkmo" },
-          extension_attributes: {
-            shipping_assignments: [
+        const api = client.forStore(params);
+        return await idempotency.run(`create-sales-order:${api.store.tenantId}`, params.idempotencyKey, params, async (checkpoint) => {
+          const order = params.order;
+          const mode = params.mode || config.orderCreationMode;
+
+          if (mode === "admin") {
+            const unpriced = order.lineItems.filter((item) => item.unitPrice === undefined).map((item) => item.sku);
+            if (unpriced.length > 0) {
+              return errorResult(
+                `create-sales-order failed: unitPrice is required in admin mode (missing for ${unpriced.join(", ")})`
+              );
+            }
+          }
+
+          // Carried in an internal order comment, so a retry can recognize an order created by an earlier attempt
+          const marker = params.idempotencyKey ? `[onX idempotency key: ${params.idempotencyKey}]` : "";
+          const findExisting = () => findOrderByMarker(api, adminOrderEmail(order), marker);
+
+          // An earlier attempt may have created the order and stopped before finishing with it
+          const saved = checkpoint.saved;
+          let existing: M2Order | undefined;
+          if (typeof saved?.orderId === "number") {
+            existing = await api.get<M2Order>(`orders/${saved.orderId}`);
+          } else if (typeof saved?.quoteId === "number") {
+            // ...or placed its cart before the order was recorded
+            existing = await findOrderByQuoteId(api, saved.quoteId);
+          } else if (marker && mode === "admin") {
+            existing = await findExisting();
+          }
+
+          let m2Order: M2Order;
+          let backordered: StockShortfall[] = [];
+          const warnings: string[] = [];
+          if (existing) {
+            m2Order = existing;
+            backordered = (saved?.backordered as StockShortfall[] | undefined) || [];
+          } else if (mode === "cart") {
+            const orderId = await placeCartOrder(api, order, config.cartPaymentMethod, (quoteId) =>
+              checkpoint.save({ quoteId })
+            );
+            m2Order = await api.get<M2Order>(`orders/${orderId}`);
+          } else {
+            // The admin endpoint neither checks nor reserves stock — do both here
+            backordered = await findStockShortfalls(api, order.lineItems);
+            if (backordered.length > 0 && config.oversellPolicy === "reject") {
+              return errorResult(
+                `create-sales-order failed: insufficient salable quantity for ${describeShortfalls(backordered)}`
+              );
+            }
+            await checkpoint.save({ backordered });
+
+            // Single POST creates the order and returns the full entity
+            m2Order = await api.post<M2Order>(
+              "orders",
               {
-                shipping: {
-                  address: shippingAddr,
-                  method: shippingMethod,
-                },
-                items: m2Items,
+                entity: buildAdminOrderEntity(order, api.store, config.offlinePaymentMethod, {
+                  externalId: order.externalId,
+                  comment: marker && `Created via onX ${marker}`,
+                }),
               },
-            ],
-          },
-        };
-
-        if (order.externalId) {
-          entity.ext_order_id = order.externalId;
-        }
-
-        // Single POST creates the order and returns the full entity
-        const m2Order = await client.post<M2Order>("orders", { entity });
-
-        // Add order note as comment if provided
-        if (order.orderNote) {
-          await client.post(`orders/${m2Order.entity_id}/comments`, {
-            statusHistory: {
-              comment: order.orderNote,
-              is_customer_notified: 0,
-              is_visible_on_front: 0,
-            },
-          });
-        }
+              marker ? { retry: true, recover: findExisting } : {}
+            );
+          }
+          await checkpoint.save({ orderId: m2Order.entity_id });
+
+          // Each follow-up step runs once per key; a retry resumes with the ones not yet done
+          const created = m2Order;
+          const { orderNote, payments } = order;
+          if (mode === "cart" && order.externalId) {
+            await checkpoint.step("externalId", async () => {
+              await saveOrderFields(api, created.entity_id, { ext_order_id: order.externalId });
+            });
+          }
 
-        return successResult({ order: mapM2OrderToOnx(m2Order, vendorNs) });
+          if (mode === "admin") {
+            const stockWarning = await checkpoint.step("reserveStock", () => reserveOrderStock(api, created, order.lineItems));
+            if (stockWarning) warnings.push(stockWarning);
+          }
+
+          if (orderNote) {
+            await checkpoint.step("orderNote", async () => {
+              await api.post(`orders/${created.entity_id}/comments`, {
+                statusHistory: {
+                  comment: orderNoteComment(orderNote),
+                  is_customer_notified: 0,
+                  is_visible_on_front: 0,
+                },
+              });
+            });
+          }
+
+          if (backordered.length > 0) {
+            await checkpoint.step("backorderComment", async () => {
+              await api.post(`orders/${created.entity_id}/comments`, {
+                statusHistory: {
+                  comment: `Backordered via onX: ${describeShortfalls(backordered)}`,
+                  is_customer_notified: 0,
+                  is_visible_on_front: 0,
+                },
+              });
+            });
+          }
+
+          if (payments?.length) {
+            const warning = await checkpoint.step("payments", () => recordExternalPayments(api, created, payments));
+            if (warning) warnings.push(warning);
+          }
+
+          m2Order = await api.get<M2Order>(`orders/${created.entity_id}`);
+
+          return successResult({
+            order: mapM2OrderToOnx(m2Order, vendorNs),
+            backorderedLineItems: backordered.length > 0 ? backordered : undefined,
+            warnings: warnings.length > 0 ? warnings : undefined,
+          });
+        });
       } catch (error: unknown) {
         return errorResult(`create-sales-order failed: ${error instanceof Error ? error.message : String(error)}`);
       }
@@ -166,17 +239,46 @@ export function registerCreateSalesOrder(server: McpServer, client: MagentoClien
   );
 }
 
-function mapOnxAddressToM2(addr: OnxAddress, email: string) {
-  return {
-    firstname: addr.firstName || "Guest",
-    lastname: addr.lastName || "Customer",
-    company: addr.company,
-    street: [addr.address1 || "", addr.address2 || ""].filter(Boolean),
-    city: addr.city || "",
-    region_code: addr.stateOrProvince,
-    postcode: addr.zipCodeOrPostalCode || "00000",
-    country_id: addr.country || "US",
-    telephone: addr.phone || "0000000000",
-    email: addr.email || email,
-  };
+function describeShortfalls(shortfalls: StockShortfall[]): string {
+  return shortfalls
+    .map((s) => `${s.sku} (requested ${s.requested}${s.salable !== undefined ? `, salable ${s.salable}` : ""})`)
+    .join(", ");
+}
+
+/**
+ * Record payments taken outside Magento. Once they cover the order total the
+ * order is invoiced offline (paid, nothing captured); otherwise they are only
+ * noted on the order and a warning is returned.
+ */
+async function recordExternalPayments(
+  client: MagentoClient,
+  m2Order: M2Order,
+  payments: NonNullable<OrderInput["payments"]>
+): Promise<string | undefined> {
+  const summary = payments
+    .map((p) =>
+      `${p.method || "payment"}${p.amount !== undefined ? ` ${p.amount}` : ""}${p.transactionId ? ` (transaction ${p.transactionId})` : ""}`
+    )
+    .join(", ");
+  const paid = payments.reduce((sum, p) => sum + (p.amount || 0), 0);
+  const paidInFull = payments.some((p) => p.amount === undefined) || paid >= m2Order.grand_total - 0.005;
+
+  if (paidInFull) {
+    await client.post(`order/${m2Order.entity_id}/invoice`, {
+      capture: false,
+      notify: false,
+      appendComment: true,
+      comment: { comment: `Paid outside Magento via onX: ${summary}`, is_visible_on_front: 0 },
+    });
+    return undefined;
+  }
+
+  await client.post(`orders/${m2Order.entity_id}/comments`, {
+    statusHistory: {
+      comment: `Payments received via onX: ${summary}`,
+      is_customer_notified: 0,
+      is_visible_on_front: 0,
+    },
+  });
+  return `Payments total ${paid} does not cover the order total ${m2Order.grand_total}; no invoice was created`;
 }
@@ -4,13 +4,32 @@
  * Matches: FulfillOrderInputSchema from reference server
  * Input: FulfillmentCoreSchema (orderId, lineItems, trackingNumbers required)
  * plus all ShippingInfo fields.
+ *
+ * Ships only the requested lineItems (partial shipment). Each line is resolved
+ * to an M2 order_item_id by `id` or by `sku`; omit lineItems to ship everything open.
+ *
+ * Without a locationId on an MSI store, M2's source selection algorithm
+ * (ONX_SOURCE_SELECTION_ALGORITHM) picks the sources to ship from. When no
+ * single source covers the request, it is split into one shipment per source;
+ * every shipment carries the tracking numbers and every resulting Fulfillment
+ * is returned in `fulfillments`.
+ *
+ * With an idempotencyKey, the planned shipments are recorded under the key
+ * before the first one is created, and each shipment carries an internal
+ * comment marking the key and its source. A retry reuses the plan, finds the
+ * shipments an earlier attempt created by their markers and creates only the
+ * missing ones.
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { MagentoClient } from "../client/magento-client.js";
-import type { M2Shipment } from "../types/magento.js";
-import { addressSchema, customFieldSchema, successResult, errorResult } from "./_helpers.js";
+import type { MagentoClient, MagentoListResponse, RequestOptions } from "../client/magento-client.js";
+import type { AdapterConfig } from "../config.js";
+import type { IdempotencyCheckpoint, IdempotencyStore } from "../idempotency-store.js";
+import type { M2Order, M2Shipment, M2SourceSelectionResult } from "../types/magento.js";
+import { addressSchema, customFieldSchema, storeScopeSchema, idempotencyKeySchema, successResult, errorResult } from "./_helpers.js";
+import { resolveOrderLines, qtyToShip, topLevelItems, type ResolvedOrderLine } from "./_orders.js";
+import { resolveStockId } from "./_inventory.js";
 
 const lineItemSchema = z.object({
   id: z.string().optional(),
@@ -24,6 +43,10 @@ const lineItemSchema = z.object({
 });
 
 interface ShipmentPayload {
+  items?: Array<{
+    order_item_id: number;
+    qty: number;
+  }>;
   notify: boolean;
   tracks?: Array<{
     carrier_code: string;
@@ -39,19 +62,44 @@ interface ShipmentPayload {
   };
 }
 
-export function registerFulfillOrder(server: McpServer, client: MagentoClient, vendorNs: string) {
+interface FulfillParams {
+  orderId: string;
+  lineItems: Array<{ id?: string; sku: string; quantity: number }>;
+  trackingNumbers: string[];
+  locationId?: string;
+  expectedShipDate?: string;
+  expectedDeliveryDate?: string;
+  shipByDate?: string;
+  tags?: string[];
+  customFields?: Array<{ name: string; value: string }>;
+  shippingCarrier?: string;
+  shippingClass?: string;
+  shippingCode?: string;
+  shippingNote?: string;
+  shippingPrice?: number;
+  giftNote?: string;
+  incoterms?: string;
+}
+
+export function registerFulfillOrder(
+  server: McpServer,
+  client: MagentoClient,
+  vendorNs: string,
+  idempotency: IdempotencyStore,
+  config: Pick<AdapterConfig, "sourceSelectionAlgorithm">
+) {
   server.tool(
     "fulfill-order",
-    "Mark orders as fulfilled and return fulfillment data including tracking information. Creates a shipment in the commerce platform.",
+    "Mark orders as fulfilled and return fulfillment data including tracking information. Creates a shipment in the commerce platform. Without locationId, Magento's source selection picks the locations and may split the request into one shipment per location.",
     {
       // FulfillmentCoreSchema required fields
       orderId: z.string().describe("Order ID to fulfill"),
-      lineItems: z.array(lineItemSchema).describe("Items to fulfill"),
+      lineItems: z.array(lineItemSchema).describe("Items to fulfill (matched by id or SKU; omit or pass [] to ship all open quantities)"),
       trackingNumbers: z.array(z.string()).describe("Tracking numbers from carrier"),
 
       // FulfillmentCoreSchema optional fields
       status: z.string().optional(),
-      locationId: z.string().optional().describe("MSI source code to ship from"),
+      locationId: z.string().optional().describe("MSI source code to ship from (see get-locations); omit to let source selection decide"),
       expectedShipDate: z.string().optional(),
       expectedDeliveryDate: z.string().optional(),
       shipByDate: z.string().optional(),
@@ -67,97 +115,51 @@ export function registerFulfillOrder(server: McpServer, client: MagentoClient, v
       shippingPrice: z.number().optional(),
       giftNote: z.string().optional(),
       incoterms: z.string().optional(),
+      ...storeScopeSchema,
+      ...idempotencyKeySchema,
     },
     async (params) => {
       try {
-        const shipmentPayload: ShipmentPayload = {
-          notify: true,
-        };
-
-        // Build tracking info from onX fields
-        if (params.trackingNumbers.length > 0) {
-          shipmentPayload.tracks = params.trackingNumbers.map((num) => ({
-            carrier_code: params.shippingCode || params.shippingCarrier || "custom",
-            title: params.shippingCarrier || "Carrier",
-            track_number: num,
-          }));
-        }
-
-        // Add comment from shipping note
-        if (params.shippingNote) {
-          shipmentPayload.comment = {
-            comment: params.shippingNote,
-            is_visible_on_front: 0,
-          };
-        }
-
-        // MSI source
-        if (params.locationId) {
-          shipmentPayload.arguments = {
-            extension_attributes: { source_code: params.locationId },
-          };
-        }
-
-        const shipmentId = await client.post<number>(
-          `order/${params.orderId}/ship`,
-          shipmentPayload
-        );
-
-        const shipment = await client.get<M2Shipment>(`shipments/${shipmentId}`);
-
-        // Build full onX Fulfillment response
-        const tracks = shipment.tracks || [];
-        return successResult({
-          fulfillment: {
-            id: String(shipment.entity_id),
-            orderId: params.orderId,
-            status: "shipped",
-            lineItems: (shipment.items || []).map((item) => ({
-              id: String(item.entity_id || ""),
-              sku: item.sku,
-              quantity: item.qty,
-              name: item.name || "",
-            })),
-            trackingNumbers: tracks.map((t) => t.track_number),
-
-            // ShippingInfo
-            shippingAddress: shipment.shipping_address ? {
-              firstName: shipment.shipping_address.firstname,
-              lastName: shipment.shipping_address.lastname,
-              company: shipment.shipping_address.company,
-              address1: shipment.shipping_address.street?.[0] || "",
-              address2: shipment.shipping_address.street?.[1] || "",
-              city: shipment.shipping_address.city,
-              stateOrProvince: shipment.shipping_address.region_code || shipment.shipping_address.region,
-              zipCodeOrPostalCode: shipment.shipping_address.postcode,
-              country: shipment.shipping_address.country_id,
-              phone: shipment.shipping_address.telephone,
-              email: shipment.shipping_address.email,
-            } : undefined,
-            shippingCarrier: tracks[0]?.title || params.shippingCarrier,
-            shippingClass: params.shippingClass,
-            shippingCode: tracks[0]?.carrier_code || params.shippingCode,
-            shippingNote: params.shippingNote,
-            shippingPrice: params.shippingPrice,
-            giftNote: params.giftNote,
-            incoterms: params.incoterms,
-
-            // Additional fields
-            locationId: params.locationId || shipment.extension_attributes?.source_code,
-            expectedShipDate: params.expectedShipDate,
-            expectedDeliveryDate: params.expectedDeliveryDate,
-            shipByDate: params.shipByDate,
-
-            tags: params.tags || [],
-            customFields: [
-              ...(params.customFields || []),
-              { name: `${vendorNs}:shipment_id`, value: String(shipment.entity_id) },
-              { name: `${vendorNs}:increment_id`, value: shipment.increment_id || "" },
-            ],
-
-            createdAt: shipment.created_at,
-            updatedAt: shipment.updated_at,
-          },
+        const api = client.forStore(params);
+        return await idempotency.run(`fulfill-order:${api.store.tenantId}`, params.idempotencyKey, params, async (checkpoint) => {
+          const shipments = await planShipments(api, params, config.sourceSelectionAlgorithm, checkpoint);
+
+          // An earlier attempt may have created some of the shipments before the connection dropped
+          const shipmentIds: number[] = [];
+          for (const shipment of shipments) {
+            const marker = params.idempotencyKey ? shipmentMarker(params.idempotencyKey, shipment.locationId) : "";
+            const findExisting = () => findShipmentByMarker(api, params.orderId, marker);
+            const existing = marker ? await findExisting() : undefined;
+            shipmentIds.push(existing ?? await createShipment(
+              api,
+              shipment,
+              marker,
+              marker ? { retry: true, recover: findExisting } : {}
+            ));
+          }
+
+          const fulfillments = [];
+          for (const shipmentId of shipmentIds) {
+            const shipment = await api.get<M2Shipment>(`shipments/${shipmentId}`);
+            fulfillments.push(mapShipmentToFulfillment(shipment, params, vendorNs));
+          }
+          const updatedOrder = await api.get<M2Order>(`orders/${params.orderId}`);
+
+          return successResult({
+            fulfillment: fulfillments[0],
+            fulfillments,
+            // What remains open on the order after these shipments
+            unshippedLineItems: topLevelItems(updatedOrder)
+              .filter((item) => qtyToShip(item) > 0)
+              .map((item) => ({
+                id: String(item.item_id),
+                sku: item.sku,
+                name: item.name || "",
+                quantityOrdered: item.qty_ordered,
+                quantityShipped: item.qty_shipped || 0,
+                quantityRemaining: qtyToShip(item),
+              })),
+          });
         });
       } catch (error: unknown) {
         return errorResult(`fulfill-order failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -165,3 +167,210 @@ export function registerFulfillOrder(server: McpServer, client: MagentoClient, v
     }
   );
 }
+
+/**
+ * The shipments to create: the request itself with a locationId, otherwise
+ * one per source. With a key the plan is recorded before anything is shipped,
+ * since a retry after a partial split would otherwise plan only what is left.
+ */
+async function planShipments(
+  api: MagentoClient,
+  params: FulfillParams,
+  algorithm: string,
+  checkpoint: IdempotencyCheckpoint
+): Promise<FulfillParams[]> {
+  const saved = checkpoint.saved?.shipments as FulfillParams[] | undefined;
+  if (saved) return saved;
+
+  const shipments = params.locationId ? [params] : await planShipmentsBySource(api, params, algorithm);
+  await checkpoint.save({ shipments });
+  return shipments;
+}
+
+async function createShipment(
+  api: MagentoClient,
+  params: FulfillParams,
+  marker: string,
+  options: RequestOptions
+): Promise<number> {
+  const shipmentPayload: ShipmentPayload = {
+    notify: true,
+  };
+
+  // Resolve requested lines to order items and ship only those quantities
+  if (params.lineItems.length > 0) {
+    const order = await api.get<M2Order>(`orders/${params.orderId}`);
+    const lines = resolveOrderLines(order, params.lineItems);
+
+    const overages = lines
+      .filter((line) => line.quantity > qtyToShip(line.item))
+      .map((line) => `${line.sku} (requested ${line.quantity}, open to ship ${qtyToShip(line.item)})`);
+    if (overages.length > 0) {
+      throw new Error(`requested quantity exceeds the unshipped quantity for ${overages.join(", ")}`);
+    }
+
+    shipmentPayload.items = lines.map((line) => ({
+      order_item_id: line.item.item_id,
+      qty: line.quantity,
+    }));
+  }
+
+  // Build tracking info from onX fields
+  if (params.trackingNumbers.length > 0) {
+    shipmentPayload.tracks = params.trackingNumbers.map((num) => ({
+      carrier_code: params.shippingCode || params.shippingCarrier || "custom",
+      title: params.shippingCarrier || "Carrier",
+      track_number: num,
+    }));
+  }
+
+  // Add comment from shipping note; without appendComment it is left out of the customer email
+  if (params.shippingNote || marker) {
+    shipmentPayload.comment = {
+      comment: [params.shippingNote, marker].filter(Boolean).join(" "),
+      is_visible_on_front: 0,
+    };
+  }
+
+  // MSI source
+  if (params.locationId) {
+    shipmentPayload.arguments = {
+      extension_attributes: { source_code: params.locationId },
+    };
+  }
+
+  return api.post<number>(`order/${params.orderId}/ship`, shipmentPayload, options);
+}
+
+/**
+ * Split a request without locationId into one shipment per MSI source, as
+ * chosen by M2's source selection algorithm. Stores without MSI ship the
+ * request as-is.
+ */
+async function planShipmentsBySource(api: MagentoClient, params: FulfillParams, algorithm: string): Promise<FulfillParams[]> {
+  const stockId = await resolveStockId(api);
+  if (stockId === undefined) return [params];
+
+  const order = await api.get<M2Order>(`orders/${params.orderId}`);
+  const lines: ResolvedOrderLine[] = params.lineItems.length > 0
+    ? resolveOrderLines(order, params.lineItems)
+    : topLevelItems(order)
+      .filter((item) => qtyToShip(item) > 0)
+      .map((item) => ({ item, sku: item.sku, quantity: qtyToShip(item) }));
+  if (lines.length === 0) return [params];
+
+  // Source selection works per SKU; configurable parent rows carry the child's SKU
+  const requested = new Map<string, number>();
+  for (const line of lines) {
+    requested.set(line.item.sku, (requested.get(line.item.sku) || 0) + line.quantity);
+  }
+  const destination = order.extension_attributes?.shipping_assignments?.[0]?.shipping?.address;
+
+  const selection = await api.post<M2SourceSelectionResult>("inventory/source-selection-algorithm-result", {
+    inventoryRequest: {
+      stockId,
+      items: Array.from(requested, ([sku, qty]) => ({ sku, qty })),
+      extension_attributes: destination ? {
+        destination_address: {
+          country: destination.country_id,
+          postcode: destination.postcode,
+          street: (destination.street || []).join(" "),
+          region: destination.region || "",
+          city: destination.city,
+        },
+      } : undefined,
+    },
+    algorithmCode: algorithm,
+  });
+  if (!selection.shippable) {
+    throw new Error(`no combination of sources can ship the requested quantities (${algorithm} source selection)`);
+  }
+
+  // Hand each source's deduction to the order lines with that SKU, in order
+  const remaining = new Map(lines.map((line) => [line.item.item_id, line.quantity]));
+  const bySource = new Map<string, FulfillParams["lineItems"]>();
+  for (const selected of selection.source_selection_items) {
+    let qty = selected.qty_to_deduct;
+    for (const line of lines) {
+      const open = remaining.get(line.item.item_id) || 0;
+      if (qty <= 0 || open === 0 || line.item.sku !== selected.sku) continue;
+      const take = Math.min(qty, open);
+      remaining.set(line.item.item_id, open - take);
+      qty -= take;
+
+      const sourceLines = bySource.get(selected.source_code) || [];
+      sourceLines.push({ id: String(line.item.item_id), sku: line.sku, quantity: take });
+      bySource.set(selected.source_code, sourceLines);
+    }
+  }
+
+  return Array.from(bySource, ([sourceCode, lineItems]) => ({ ...params, lineItems, locationId: sourceCode }));
+}
+
+/** The comment marker tying a shipment to its idempotency key and source */
+function shipmentMarker(idempotencyKey: string, sourceCode: string | undefined): string {
+  return `[onX idempotency key: ${idempotencyKey}] [onX source: ${sourceCode || "default"}]`;
+}
+
+/** Find a shipment on the order whose comment carries the given marker. */
+async function findShipmentByMarker(api: MagentoClient, orderId: string, marker: string): Promise<number | undefined> {
+  const result = await api.get<MagentoListResponse<M2Shipment>>("shipments", {
+    filterGroups: [{ filters: [{ field: "order_id", value: orderId, conditionType: "eq" }] }],
+  });
+  const match = (result.items || []).find((s) => (s.comments || []).some((c) => c.comment.includes(marker)));
+  return match?.entity_id;
+}
+
+function mapShipmentToFulfillment(shipment: M2Shipment, params: FulfillParams, vendorNs: string): Record<string, unknown> {
+  const tracks = shipment.tracks || [];
+  return {
+    id: String(shipment.entity_id),
+    orderId: params.orderId,
+    status: "shipped",
+    lineItems: (shipment.items || []).map((item) => ({
+      id: String(item.entity_id || ""),
+      sku: item.sku,
+      quantity: item.qty,
+      name: item.name || "",
+    })),
+    trackingNumbers: tracks.map((t) => t.track_number),
+
+    // ShippingInfo
+    shippingAddress: shipment.shipping_address ? {
+      firstName: shipment.shipping_address.firstname,
+      lastName: shipment.shipping_address.lastname,
+      company: shipment.shipping_address.company,
+      address1: shipment.shipping_address.street?.[0] || "",
+      address2: shipment.shipping_address.street?.[1] || "",
+      city: shipment.shipping_address.city,
+      stateOrProvince: shipment.shipping_address.region_code || shipment.shipping_address.region,
+      zipCodeOrPostalCode: shipment.shipping_address.postcode,
+      country: shipment.shipping_address.country_id,
+      phone: shipment.shipping_address.telephone,
+      email: shipment.shipping_address.email,
+    } : undefined,
+    shippingCarrier: tracks[0]?.title || params.shippingCarrier,
+    shippingClass: params.shippingClass,
+    shippingCode: tracks[0]?.carrier_code || params.shippingCode,
+    shippingNote: params.shippingNote,
+    shippingPrice: params.shippingPrice,
+    giftNote: params.giftNote,
+    incoterms: params.incoterms,
+
+    // Additional fields
+    locationId: params.locationId || shipment.extension_attributes?.source_code,
+    expectedShipDate: params.expectedShipDate,
+    expectedDeliveryDate: params.expectedDeliveryDate,
+    shipByDate: params.shipByDate,
+
+    tags: params.tags || [],
+    customFields: [
+      ...(params.customFields || []),
+      { name: `${vendorNs}:shipment_id`, value: String(shipment.entity_id) },
+      { name: `${vendorNs}:increment_id`, value: shipment.increment_id || "" },
+    ],
+
+    createdAt: shipment.created_at,
+    updatedAt: shipment.updated_at,
+  };
+}
@@ -7,10 +7,10 @@
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
+import type { MagentoClient } from "../client/magento-client.js";
 import type { M2Customer } from "../types/magento.js";
 import { mapM2CustomerToOnx } from "../mappers/customer-mapper.js";
-import { temporalPaginationSchema, buildSearchCriteria, idsFilter, successResult, errorResult } from "./_helpers.js";
+import { temporalPaginationSchema, buildSearchCriteria, resolvePage, buildPagination, idsFilter, storeScopeSchema, successResult, errorResult } from "./_helpers.js";
 
 export function registerGetCustomers(server: McpServer, client: MagentoClient, vendorNs: string) {
   server.tool(
@@ -20,18 +20,21 @@ export function registerGetCustomers(server: McpServer, client: MagentoClient, v
       ids: z.array(z.string()).optional().describe("Customer IDs"),
       emails: z.array(z.string()).optional().describe("Customer email addresses"),
       ...temporalPaginationSchema,
+      ...storeScopeSchema,
     },
     async (params) => {
       try {
+        const api = client.forStore(params);
         const extraFilters: Array<{ field: string; value: string; conditionType: string }> = [];
         if (params.ids?.length) extraFilters.push(idsFilter("entity_id", params.ids));
         if (params.emails?.length) extraFilters.push(idsFilter("email", params.emails));
 
         const criteria = buildSearchCriteria({ ...params, extraFilters });
-        const result = await client.get<MagentoListResponse<M2Customer>>("customers/search", criteria);
-        const customers = (result.items || []).map((c) => mapM2CustomerToOnx(c, vendorNs));
+        const page = resolvePage(params);
+        const result = await api.getPage<M2Customer>("customers/search", criteria, page);
+        const customers = result.items.map((c) => mapM2CustomerToOnx(c, vendorNs));
 
-        return successResult({ customers });
+        return successResult({ customers, pagination: buildPagination(page, criteria, result) });
       } catch (error: unknown) {
         return errorResult(`get-customers failed: ${error instanceof Error ? error.message : String(error)}`);
       }
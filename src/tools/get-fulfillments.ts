@@ -10,9 +10,9 @@
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
+import type { MagentoClient } from "../client/magento-client.js";
 import type { M2Shipment, M2ShipmentTrack } from "../types/magento.js";
-import { temporalPaginationSchema, buildSearchCriteria, idsFilter, successResult, errorResult } from "./_helpers.js";
+import { temporalPaginationSchema, buildSearchCriteria, resolvePage, buildPagination, idsFilter, storeScopeSchema, successResult, errorResult } from "./_helpers.js";
 
 export function registerGetFulfillments(server: McpServer, client: MagentoClient, vendorNs: string) {
   server.tool(
@@ -22,19 +22,22 @@ export function registerGetFulfillments(server: McpServer, client: MagentoClient
       ids: z.array(z.string()).optional().describe("Fulfillment/shipment IDs"),
       orderIds: z.array(z.string()).optional().describe("Order IDs to find fulfillments for"),
       ...temporalPaginationSchema,
+      ...storeScopeSchema,
     },
     async (params) => {
       try {
+        const api = client.forStore(params);
         const extraFilters: Array<{ field: string; value: string; conditionType: string }> = [];
         if (params.ids?.length) extraFilters.push(idsFilter("entity_id", params.ids));
         if (params.orderIds?.length) extraFilters.push(idsFilter("order_id", params.orderIds));
 
         const criteria = buildSearchCriteria({ ...params, extraFilters });
-        const result = await client.get<MagentoListResponse<M2Shipment>>("shipments", criteria);
+        const page = resolvePage(params);
+        const result = await api.getPage<M2Shipment>("shipments", criteria, page);
 
-        const fulfillments = (result.items || []).map((s) => mapShipmentToOnxFulfillment(s, vendorNs));
+        const fulfillments = result.items.map((s) => mapShipmentToOnxFulfillment(s, vendorNs));
 
-        return successResult({ fulfillments });
+        return successResult({ fulfillments, pagination: buildPagination(page, criteria, result) });
       } catch (error: unknown) {
         return errorResult(`get-fulfillments failed: ${error instanceof Error ? error.message : String(error)}`);
       }
@@ -2,25 +2,40 @@
  * onX tool: get-inventory
  *
  * Matches: GetInventoryInputSchema from reference server
- * Input: { skus: string[] (required), locationIds?: string[] }
+ * Input: { skus: string[] (required), locationIds?: string[], pageSize?, skip?, cursor?, fetchAll? }
  *
- * Uses M2 MSI (Multi-Source Inventory) with fallback to legacy catalogInventory.
+ * Uses M2 MSI (Multi-Source Inventory) when installed (detected once per
+ * process), legacy catalogInventory otherwise — read in bulk from the
+ * products search's stock_item extension attribute.
+ *
+ * SKUs with no inventory come back in `notFound`; SKUs whose stock could not
+ * be read come back in `errors`, so a missing row is never silent.
+ *
+ * With MSI, each SKU gets one row per source and one aggregate row for the
+ * store's stock (locationId "stock:{stockId}"):
+ *   - source rows: onHand is the source quantity; a disabled (out of stock)
+ *     source item counts as unavailable
+ *   - stock row: available is M2's salable quantity (reservations, thresholds
+ *     and disabled sources applied), onHand sums the sources linked to the
+ *     stock, and unavailable is the difference
+ *
+ * Rows are built in memory for the requested SKUs, ordered by SKU and
+ * location, and the page window is applied to them locally.
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
-import type { SearchCriteria } from "../client/magento-client.js";
-import type { M2SourceItem, M2StockItem } from "../types/magento.js";
-import { successResult, errorResult } from "./_helpers.js";
-
-interface OnxInventoryRecord {
-  sku: string;
-  locationId: string;
-  available: number;
-  onHand: number;
-  unavailable: number;
-  tenantId: string;
+import type { MagentoClient, PageResult } from "../client/magento-client.js";
+import type { MagentoListResponse, SearchCriteria } from "../client/magento-client.js";
+import type { M2Product, M2SourceItem, M2StockSourceLink } from "../types/magento.js";
+import { temporalPaginationSchema, resolvePage, buildPagination, paginateLocally, storeScopeSchema, idsFilter, successResult, errorResult } from "./_helpers.js";
+import { resolveStockId, mapSourceItemToOnx, mapStockItemToOnx, type OnxInventoryRecord } from "./_inventory.js";
+
+interface InventoryResult extends PageResult<OnxInventoryRecord> {
+  /** Requested SKUs with no inventory at all */
+  notFound: string[];
+  /** SKUs (and locations) whose stock could not be read */
+  errors: Array<{ sku: string; locationId?: string; error: string }>;
 }
 
 export function registerGetInventory(server: McpServer, client: MagentoClient, vendorNs: string) {
@@ -29,23 +44,37 @@ export function registerGetInventory(server: McpServer, client: MagentoClient, v
     "Check stock levels across locations. Requires at least one SKU. Supports Magento MSI (Multi-Source Inventory).",
     {
       skus: z.array(z.string()).describe("Product SKUs to get inventory for (required)"),
-      locationIds: z.array(z.string()).optional().describe("Specific warehouse/location IDs (optional)"),
+      locationIds: z.array(z.string()).optional().describe("Specific warehouse/location IDs — MSI source codes or \"stock:{stockId}\" (optional)"),
+      pageSize: temporalPaginationSchema.pageSize,
+      skip: temporalPaginationSchema.skip,
+      cursor: temporalPaginationSchema.cursor,
+      fetchAll: temporalPaginationSchema.fetchAll,
+      ...storeScopeSchema,
     },
     async (params) => {
       try {
+        const api = client.forStore(params);
         if (params.skus.length === 0) {
           return errorResult("At least one SKU is required");
         }
 
-        // Try MSI first (M2 2.3+)
-        try {
-          const inventory = await getMsiInventory(client, params.skus, params.locationIds, vendorNs);
-          return successResult({ inventory });
-        } catch {
-          // Fall back to legacy catalog inventory
-          const inventory = await getLegacyInventory(client, params.skus, vendorNs);
-          return successResult({ inventory });
-        }
+        // MSI (M2 2.3+) when installed, legacy catalog inventory otherwise
+        const stockId = await resolveStockId(api);
+        const result = stockId !== undefined
+          ? await getMsiInventory(api, stockId, params.skus, params.locationIds, vendorNs)
+          : await getLegacyInventory(api, params.skus, vendorNs);
+
+        const criteria: SearchCriteria = { sortOrders: [{ field: "sku", direction: "ASC" }] };
+        const page = resolvePage(params);
+        const rows = result.items.sort((a, b) => a.sku.localeCompare(b.sku) || a.locationId.localeCompare(b.locationId));
+        const window = paginateLocally(rows, page, api.fetchAllLimit);
+
+        return successResult({
+          inventory: window.items,
+          notFound: result.notFound,
+          errors: result.errors,
+          pagination: buildPagination(page, criteria, window),
+        });
       } catch (error: unknown) {
         return errorResult(`get-inventory failed: ${error instanceof Error ? error.message : String(error)}`);
       }
@@ -55,57 +84,98 @@ export function registerGetInventory(server: McpServer, client: MagentoClient, v
 
 async function getMsiInventory(
   client: MagentoClient,
+  stockId: number,
   skus: string[],
   locationIds: string[] | undefined,
   vendorNs: string
-): Promise<OnxInventoryRecord[]> {
+): Promise<InventoryResult> {
   const filters: SearchCriteria = {
     filterGroups: [
       { filters: [{ field: "sku", value: skus.join(","), conditionType: "in" }] },
     ],
-    pageSize: skus.length * 10,
   };
 
-  if (locationIds?.length) {
-    filters.filterGroups!.push({
-      filters: [{ field: "source_code", value: locationIds.join(","), conditionType: "in" }],
-    });
+  // Walk every page, uncapped, so SKUs stocked at many sources are not truncated.
+  // All sources are read, since the stock row sums them; locationIds filter the rows.
+  const sourceItems: M2SourceItem[] = [];
+  const [, links] = await Promise.all([
+    client.forEachPage<M2SourceItem>("inventory/source-items", filters, (items) => {
+      sourceItems.push(...items);
+    }),
+    client.get<MagentoListResponse<M2StockSourceLink>>("inventory/stock-source-links", {
+      filterGroups: [{ filters: [{ field: "stock_id", value: String(stockId), conditionType: "eq" }] }],
+    }),
+  ]);
+  const linkedSources = new Set((links.items || []).map((link) => link.source_code));
+
+  const stockLocationId = `stock:${stockId}`;
+  const wanted = (locationId: string) => !locationIds?.length || locationIds.includes(locationId);
+
+  const records: OnxInventoryRecord[] = [];
+  const errors: InventoryResult["errors"] = [];
+  for (const item of sourceItems) {
+    if (wanted(item.source_code)) records.push(mapSourceItemToOnx(item, vendorNs));
   }
 
-  const response = await client.get<MagentoListResponse<M2SourceItem>>("inventory/source-items", filters);
+  if (wanted(stockLocationId)) {
+    for (const sku of skus) {
+      const linked = sourceItems.filter((item) => item.sku === sku && linkedSources.has(item.source_code));
+      if (linked.length === 0) continue;
+
+      // Salable quantity = linked source quantity − reservations − out-of-stock threshold
+      let salable: number;
+      try {
+        salable = await client.get<number>(`inventory/get-product-salable-quantity/${encodeURIComponent(sku)}/${stockId}`);
+      } catch (error: unknown) {
+        errors.push({ sku, locationId: stockLocationId, error: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+
+      const onHand = linked.reduce((sum, item) => sum + item.quantity, 0);
+      records.push({
+        sku,
+        locationId: stockLocationId,
+        available: salable,
+        onHand,
+        unavailable: Math.max(0, onHand - salable),
+        tenantId: vendorNs,
+      });
+    }
+  }
 
-  return (response.items || []).map((item) => ({
-    sku: item.sku,
-    locationId: item.source_code,
-    available: item.quantity,
-    onHand: item.quantity,
-    unavailable: 0,
-    tenantId: vendorNs,
-  }));
+  const stocked = new Set(sourceItems.map((item) => item.sku));
+  return {
+    items: records,
+    totalCount: records.length,
+    notFound: skus.filter((sku) => !stocked.has(sku)),
+    errors,
+  };
 }
 
+/** Legacy stock for all SKUs in one products search, via each product's stock_item. */
 async function getLegacyInventory(
   client: MagentoClient,
   skus: string[],
   vendorNs: string
-): Promise<OnxInventoryRecord[]> {
-  const results: OnxInventoryRecord[] = [];
+): Promise<InventoryResult> {
+  // Every page, so a long SKU list is not cut off at the fetch-all limit
+  const bySku = new Map<string, M2Product>();
+  await client.forEachPage<M2Product>("products", { filterGroups: [{ filters: [idsFilter("sku", skus)] }] }, (products) => {
+    for (const product of products) bySku.set(product.sku, product);
+  });
 
+  const result: InventoryResult = { items: [], totalCount: 0, notFound: [], errors: [] };
   for (const sku of skus) {
-    try {
-      const stockItem = await client.get<M2StockItem>(`stockItems/${encodeURIComponent(sku)}`);
-      results.push({
-        sku,
-        locationId: "default",
-        available: stockItem.qty,
-        onHand: stockItem.qty,
-        unavailable: 0,
-        tenantId: vendorNs,
-      });
-    } catch {
-      // SKU not found in legacy stock — skip
+    const product = bySku.get(sku);
+    const stockItem = product?.extension_attributes?.stock_item;
+    if (!product) {
+      result.notFound.push(sku);
+    } else if (!stockItem) {
+      result.errors.push({ sku, locationId: "default", error: `No stock item for ${product.type_id} product` });
+    } else {
+      result.items.push(mapStockItemToOnx(sku, stockItem, vendorNs));
     }
   }
-
-  return results;
+  result.totalCount = result.items.length;
+  return result;
 }
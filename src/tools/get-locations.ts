@@ -0,0 +1,59 @@
+/**
+ * onX tool: get-locations
+ *
+ * Input: { ids?[], enabled?, pageSize?, skip?, cursor?, fetchAll? }
+ *
+ * Lists inventory locations — M2 MSI sources — with their address, enabled
+ * flag, priority and the stocks and sales channels each one feeds. A
+ * location's `id` is the source code that get-inventory reports as
+ * `locationId` and that fulfill-order and update-inventory accept.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { MagentoClient, SearchCriteria } from "../client/magento-client.js";
+import type { M2Source } from "../types/magento.js";
+import { mapM2SourceToOnxLocation } from "../mappers/location-mapper.js";
+import { temporalPaginationSchema, resolvePage, buildPagination, idsFilter, storeScopeSchema, successResult, errorResult } from "./_helpers.js";
+import { getSourceStockLinks } from "./_inventory.js";
+
+export function registerGetLocations(server: McpServer, client: MagentoClient, vendorNs: string) {
+  server.tool(
+    "get-locations",
+    "List inventory locations (Magento MSI sources) with address, enabled flag, priority, and the stocks and sales channels each location feeds. Use a location's id as locationId in fulfill-order and update-inventory.",
+    {
+      ids: z.array(z.string()).optional().describe("Location IDs (MSI source codes)"),
+      enabled: z.boolean().optional().describe("Only enabled (true) or disabled (false) locations"),
+      pageSize: temporalPaginationSchema.pageSize,
+      skip: temporalPaginationSchema.skip,
+      cursor: temporalPaginationSchema.cursor,
+      fetchAll: temporalPaginationSchema.fetchAll,
+      ...storeScopeSchema,
+    },
+    async (params) => {
+      try {
+        const api = client.forStore(params);
+        const filterGroups: NonNullable<SearchCriteria["filterGroups"]> = [];
+        if (params.ids?.length) filterGroups.push({ filters: [idsFilter("source_code", params.ids)] });
+        if (params.enabled !== undefined) {
+          filterGroups.push({ filters: [{ field: "enabled", value: params.enabled ? "1" : "0", conditionType: "eq" }] });
+        }
+
+        // Sources have no timestamps — page by source code
+        const criteria: SearchCriteria = {
+          filterGroups: filterGroups.length > 0 ? filterGroups : undefined,
+          sortOrders: [{ field: "source_code", direction: "ASC" }],
+        };
+        const page = resolvePage(params);
+        const result = await api.getPage<M2Source>("inventory/sources", criteria, page);
+
+        const { links, stocks } = await getSourceStockLinks(api, result.items.map((s) => s.source_code));
+        const locations = result.items.map((source) => mapM2SourceToOnxLocation(source, links, stocks, vendorNs));
+
+        return successResult({ locations, pagination: buildPagination(page, criteria, result) });
+      } catch (error: unknown) {
+        return errorResult(`get-locations failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  );
+}
@@ -2,15 +2,20 @@
  * onX tool: get-orders
  *
  * Matches: GetOrdersInputSchema from reference server
- * Inputs: ids[], externalIds[], statuses[], names[], includeLineItems, TemporalPagination
+ * Inputs: ids[], externalIds[], statuses[], names[], includeLineItems, includeHistory, TemporalPagination
+ *
+ * includeHistory adds each order's status history and comments as `timeline`.
+ *
+ * Credit memos of refunded orders on the page are loaded in one extra call so
+ * each order's refunds list its credit memos.
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
-import type { M2Order } from "../types/magento.js";
-import { mapM2OrderToOnx } from "../mappers/order-mapper.js";
-import { temporalPaginationSchema, buildSearchCriteria, idsFilter, successResult, errorResult } from "./_helpers.js";
+import type { M2CreditMemo, M2Order } from "../types/magento.js";
+import { mapM2OrderToOnx, mapStatusHistory } from "../mappers/order-mapper.js";
+import { temporalPaginationSchema, buildSearchCriteria, resolvePage, buildPagination, idsFilter, storeScopeSchema, successResult, errorResult } from "./_helpers.js";
 
 export function registerGetOrders(server: McpServer, client: MagentoClient, vendorNs: string) {
   server.tool(
@@ -22,10 +27,13 @@ export function registerGetOrders(server: McpServer, client: MagentoClient, vend
       statuses: z.array(z.string()).optional().describe("Order statuses to filter by"),
       names: z.array(z.string()).optional().describe("Friendly order identifiers (increment_id in M2)"),
       includeLineItems: z.boolean().default(true).optional().describe("Whether to include detailed line item information in the returned orders"),
+      includeHistory: z.boolean().optional().describe("Whether to include each order's status history and comments as a timeline"),
       ...temporalPaginationSchema,
+      ...storeScopeSchema,
     },
     async (params) => {
       try {
+        const api = client.forStore(params);
         const extraFilters: Array<{ field: string; value: string; conditionType: string }> = [];
 
         if (params.ids?.length) extraFilters.push(idsFilter("entity_id", params.ids));
@@ -34,21 +42,37 @@ export function registerGetOrders(server: McpServer, client: MagentoClient, vend
         if (params.names?.length) extraFilters.push(idsFilter("increment_id", params.names));
 
         const criteria = buildSearchCriteria({ ...params, extraFilters });
-        const result = await client.get<MagentoListResponse<M2Order>>("orders", criteria);
+        const page = resolvePage(params);
+        const result = await api.getPage<M2Order>("orders", criteria, page);
         const includeLineItems = params.includeLineItems !== false;
+        const creditMemos = await getCreditMemos(api, result.items);
 
-        const orders = (result.items || []).map((o) => {
-          const mapped = mapM2OrderToOnx(o, vendorNs);
+        const orders = result.items.map((o) => {
+          const mapped = mapM2OrderToOnx(o, vendorNs, creditMemos);
           if (!includeLineItems) {
             delete mapped.lineItems;
           }
+          if (params.includeHistory) {
+            mapped.timeline = mapStatusHistory(o);
+          }
           return mapped;
         });
 
-        return successResult({ orders });
+        return successResult({ orders, pagination: buildPagination(page, criteria, result) });
       } catch (error: unknown) {
         return errorResult(`get-orders failed: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
   );
 }
+
+/** Credit memos of the refunded orders among `orders`. */
+async function getCreditMemos(client: MagentoClient, orders: M2Order[]): Promise<M2CreditMemo[]> {
+  const refundedIds = orders.filter((o) => o.total_refunded).map((o) => String(o.entity_id));
+  if (refundedIds.length === 0) return [];
+
+  const result = await client.get<MagentoListResponse<M2CreditMemo>>("creditmemos", {
+    filterGroups: [{ filters: [idsFilter("order_id", refundedIds)] }],
+  });
+  return result.items || [];
+}
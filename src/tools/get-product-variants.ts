@@ -14,9 +14,9 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
 import type { M2Product, M2ConfigurableOption, M2CustomAttribute } from "../types/magento.js";
 import { mapM2ProductVariantToOnx } from "../mappers/product-variant-mapper.js";
-import { temporalPaginationSchema, buildSearchCriteria, idsFilter, successResult, errorResult } from "./_helpers.js";
+import { temporalPaginationSchema, buildSearchCriteria, resolvePage, buildPagination, paginateLocally, idsFilter, storeScopeSchema, successResult, errorResult } from "./_helpers.js";
 
-export function registerGetProductVariants(server: McpServer, client: MagentoClient, vendorNs: string, currency: string) {
+export function registerGetProductVariants(server: McpServer, client: MagentoClient, vendorNs: string) {
   server.tool(
     "get-product-variants",
     "Retrieve variant-level data including SKU, pricing, dimensions, and inventory tracking status. In Magento 2, variants are simple products linked to configurable parents.",
@@ -25,9 +25,14 @@ export function registerGetProductVariants(server: McpServer, client: MagentoCli
       skus: z.array(z.string()).optional().describe("Variant SKUs"),
       productIds: z.array(z.string()).optional().describe("Parent product IDs — returns all variants under each product"),
       ...temporalPaginationSchema,
+      ...storeScopeSchema,
     },
     async (params) => {
       try {
+        const api = client.forStore(params);
+        const currency = api.store.currency;
+        const page = resolvePage(params);
+
         // If productIds provided, fetch children of each configurable product
         if (params.productIds?.length) {
           const allVariants: Record<string, unknown>[] = [];
@@ -35,7 +40,7 @@ export function registerGetProductVariants(server: McpServer, client: MagentoCli
           for (const parentId of params.productIds) {
             try {
               // Get the parent product (including configurable_product_options)
-              const parentResult = await client.get<MagentoListResponse<M2Product>>("products", {
+              const parentResult = await api.get<MagentoListResponse<M2Product>>("products", {
                 filterGroups: [{ filters: [{ field: "entity_id", value: parentId, conditionType: "eq" }] }],
                 pageSize: 1,
               });
@@ -49,7 +54,7 @@ export function registerGetProductVariants(server: McpServer, client: MagentoCli
                 const optionLabelMap = buildOptionLabelMap(configOptions);
 
                 // Fetch configurable product children
-                const children = await client.get<M2Product[]>(
+                const children = await api.get<M2Product[]>(
                   `configurable-products/${encodeURIComponent(parentSku)}/children`
                 );
 
@@ -65,7 +70,12 @@ export function registerGetProductVariants(server: McpServer, client: MagentoCli
             }
           }
 
-          return successResult({ productVariants: allVariants });
+          // Children are gathered in memory, so the page window is applied locally
+          const window = paginateLocally(allVariants, page, api.fetchAllLimit);
+          return successResult({
+            productVariants: window.items,
+            pagination: buildPagination(page, buildSearchCriteria(params), window),
+          });
         }
 
         // Direct SKU or ID lookup
@@ -77,12 +87,12 @@ export function registerGetProductVariants(server: McpServer, client: MagentoCli
         extraFilters.push({ field: "type_id", value: "simple", conditionType: "eq" });
 
         const criteria = buildSearchCriteria({ ...params, extraFilters });
-        const result = await client.get<MagentoListResponse<M2Product>>("products", criteria);
-        const variants = (result.items || []).map((p) =>
+        const result = await api.getPage<M2Product>("products", criteria, page);
+        const variants = result.items.map((p) =>
           mapM2ProductVariantToOnx(p, undefined, vendorNs, currency)
         );
 
-        return successResult({ productVariants: variants });
+        return successResult({ productVariants: variants, pagination: buildPagination(page, criteria, result) });
       } catch (error: unknown) {
         return errorResult(`get-product-variants failed: ${error instanceof Error ? error.message : String(error)}`);
       }
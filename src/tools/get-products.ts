@@ -7,12 +7,12 @@
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
+import type { MagentoClient } from "../client/magento-client.js";
 import type { M2Product } from "../types/magento.js";
 import { mapM2ProductToOnx } from "../mappers/product-mapper.js";
-import { temporalPaginationSchema, buildSearchCriteria, idsFilter, successResult, errorResult } from "./_helpers.js";
+import { temporalPaginationSchema, buildSearchCriteria, resolvePage, buildPagination, idsFilter, storeScopeSchema, successResult, errorResult } from "./_helpers.js";
 
-export function registerGetProducts(server: McpServer, client: MagentoClient, vendorNs: string, currency: string) {
+export function registerGetProducts(server: McpServer, client: MagentoClient, vendorNs: string) {
   server.tool(
     "get-products",
     "Get product catalog entries. Retrieve products by ID, SKU, or with temporal filtering.",
@@ -20,13 +20,19 @@ export function registerGetProducts(server: McpServer, client: MagentoClient, ve
       ids: z.array(z.string()).optional().describe("Product IDs"),
       skus: z.array(z.string()).optional().describe("Product SKUs"),
       ...temporalPaginationSchema,
+      ...storeScopeSchema,
     },
     async (params) => {
       try {
+        const api = client.forStore(params);
+        const currency = api.store.currency;
         // Single SKU lookup uses the direct endpoint
         if (params.skus?.length === 1) {
-          const product = await client.get<M2Product>(`products/${encodeURIComponent(params.skus[0])}`);
-          return successResult({ products: [mapM2ProductToOnx(product, vendorNs, currency)] });
+          const product = await api.get<M2Product>(`products/${encodeURIComponent(params.skus[0])}`);
+          return successResult({
+            products: [mapM2ProductToOnx(product, vendorNs, currency)],
+            pagination: { totalCount: 1, pageSize: 1, skip: 0, hasMore: false },
+          });
         }
 
         const extraFilters: Array<{ field: string; value: string; conditionType: string }> = [];
@@ -34,10 +40,11 @@ export function registerGetProducts(server: McpServer, client: MagentoClient, ve
         if (params.skus?.length) extraFilters.push(idsFilter("sku", params.skus));
 
         const criteria = buildSearchCriteria({ ...params, extraFilters });
-        const result = await client.get<MagentoListResponse<M2Product>>("products", criteria);
-        const products = (result.items || []).map((p) => mapM2ProductToOnx(p, vendorNs, currency));
+        const page = resolvePage(params);
+        const result = await api.getPage<M2Product>("products", criteria, page);
+        const products = result.items.map((p) => mapM2ProductToOnx(p, vendorNs, currency));
 
-        return successResult({ products });
+        return successResult({ products, pagination: buildPagination(page, criteria, result) });
       } catch (error: unknown) {
         return errorResult(`get-products failed: ${error instanceof Error ? error.message : String(error)}`);
       }
@@ -0,0 +1,225 @@
+/**
+ * onX tool: update-inventory
+ *
+ * Input: { records: Array<{ sku, locationId, quantity | delta, status? }> }
+ *
+ * Sets (quantity) or adjusts (delta) on-hand stock per SKU and location, e.g.
+ * to push WMS cycle counts. With MSI, records are written as source items
+ * (locationId = source code) in one bulk save; without MSI, each SKU's legacy
+ * stock item is updated (locationId must be "default").
+ *
+ * Deltas are applied by read-modify-write: the current quantity is read, the
+ * delta added and the result saved. Records for the same SKU and location are
+ * applied in order. A delta needs an existing source item; only an absolute
+ * quantity assigns a SKU to a new source. Every record reports its own
+ * success or failure.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { MagentoClient } from "../client/magento-client.js";
+import type { IdempotencyStore } from "../idempotency-store.js";
+import type { M2SourceItem, M2StockItem } from "../types/magento.js";
+import { storeScopeSchema, idempotencyKeySchema, successResult, errorResult } from "./_helpers.js";
+import { resolveStockId, mapSourceItemToOnx, mapStockItemToOnx, type OnxInventoryRecord } from "./_inventory.js";
+
+interface InventoryUpdate {
+  sku: string;
+  locationId: string;
+  quantity?: number;
+  delta?: number;
+  status?: "in_stock" | "out_of_stock";
+}
+
+type InventoryUpdateResult =
+  | ({ success: true } & OnxInventoryRecord)
+  | { success: false; sku: string; locationId: string; error: string };
+
+export function registerUpdateInventory(server: McpServer, client: MagentoClient, vendorNs: string, idempotency: IdempotencyStore) {
+  server.tool(
+    "update-inventory",
+    "Set or adjust stock quantities per SKU and location in bulk. Pass quantity to set an absolute on-hand count or delta to adjust it. Writes MSI source items, or legacy stock items on stores without MSI. Returns success or failure per record.",
+    {
+      records: z.array(z.object({
+        sku: z.string(),
+        locationId: z.string().describe("MSI source code (\"default\" on stores without MSI)"),
+        quantity: z.number().optional().describe("New on-hand quantity"),
+        delta: z.number().optional().describe("Change to the current on-hand quantity (e.g. -2)"),
+        status: z.enum(["in_stock", "out_of_stock"]).optional().describe("Stock status (defaults to in_stock when quantity > 0)"),
+      })).min(1).describe("Inventory records to write"),
+      ...storeScopeSchema,
+      ...idempotencyKeySchema,
+    },
+    async (params) => {
+      try {
+        const api = client.forStore(params);
+        return await idempotency.run(`update-inventory:${api.store.tenantId}`, params.idempotencyKey, params, async () => {
+          const stockId = await resolveStockId(api);
+          const results = stockId !== undefined
+            ? await updateSourceItems(api, params.records, vendorNs)
+            : await updateStockItems(api, params.records, vendorNs);
+
+          return successResult({
+            results,
+            succeeded: results.filter((r) => r.success).length,
+            failed: results.filter((r) => !r.success).length,
+          });
+        });
+      } catch (error: unknown) {
+        return errorResult(`update-inventory failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  );
+}
+
+async function updateSourceItems(
+  client: MagentoClient,
+  records: InventoryUpdate[],
+  vendorNs: string
+): Promise<InventoryUpdateResult[]> {
+  // Current source items, for deltas — every page, as the fetch-all limit would drop some
+  const pending = new Map<string, M2SourceItem>();
+  await client.forEachPage<M2SourceItem>(
+    "inventory/source-items",
+    {
+      filterGroups: [
+        { filters: [{ field: "sku", value: unique(records.map((r) => r.sku)).join(","), conditionType: "in" }] },
+        { filters: [{ field: "source_code", value: unique(records.map((r) => r.locationId)).join(","), conditionType: "in" }] },
+      ],
+    },
+    (items) => {
+      for (const item of items) pending.set(sourceKey(item.sku, item.source_code), item);
+    }
+  );
+  const changed = new Set<string>();
+
+  const planned = records.map((record) => {
+    const key = sourceKey(record.sku, record.locationId);
+    const existing = pending.get(key);
+    if (!existing && record.delta !== undefined) {
+      return {
+        record,
+        key,
+        error: `SKU ${record.sku} is not assigned to source "${record.locationId}" — set an absolute quantity to assign it`,
+      };
+    }
+    const quantity = nextQuantity(record, existing?.quantity);
+    if (typeof quantity === "string") return { record, key, error: quantity };
+
+    const item: M2SourceItem = {
+      sku: record.sku,
+      source_code: record.locationId,
+      quantity,
+      status: nextStatus(record, quantity),
+    };
+    pending.set(key, item);
+    changed.add(key);
+    return { record, key, item };
+  });
+
+  // One bulk save; if M2 rejects it, save each source item alone to find the failing ones
+  const failures = new Map<string, string>();
+  const sourceItems: M2SourceItem[] = [];
+  for (const key of changed) {
+    const item = pending.get(key);
+    if (item) sourceItems.push(item);
+  }
+  if (sourceItems.length > 0) {
+    try {
+      await client.post("inventory/source-items", { sourceItems });
+    } catch {
+      for (const item of sourceItems) {
+        try {
+          await client.post("inventory/source-items", { sourceItems: [item] });
+        } catch (error: unknown) {
+          failures.set(sourceKey(item.sku, item.source_code), error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+  }
+
+  return planned.map(({ record, key, item, error }): InventoryUpdateResult => {
+    const failure = error || failures.get(key);
+    if (failure || !item) {
+      return { success: false, sku: record.sku, locationId: record.locationId, error: failure || "Not written" };
+    }
+    return { success: true, ...mapSourceItemToOnx(item, vendorNs) };
+  });
+}
+
+async function updateStockItems(
+  client: MagentoClient,
+  records: InventoryUpdate[],
+  vendorNs: string
+): Promise<InventoryUpdateResult[]> {
+  const results: InventoryUpdateResult[] = [];
+
+  for (const record of records) {
+    const fail = (error: string): InventoryUpdateResult =>
+      ({ success: false, sku: record.sku, locationId: record.locationId, error });
+
+    if (record.locationId !== "default") {
+      results.push(fail(`Location "${record.locationId}" does not exist — this store has no MSI sources, use "default"`));
+      continue;
+    }
+
+    try {
+      const stockItem = await client.get<M2StockItem>(`stockItems/${encodeURIComponent(record.sku)}`);
+      if (stockItem.item_id === undefined) {
+        results.push(fail(`No stock item for SKU ${record.sku}`));
+        continue;
+      }
+
+      const quantity = nextQuantity(record, stockItem.qty);
+      if (typeof quantity === "string") {
+        results.push(fail(quantity));
+        continue;
+      }
+
+      const updated: M2StockItem = {
+        ...stockItem,
+        qty: quantity,
+        is_in_stock: nextStatus(record, quantity) === 1,
+      };
+      await client.put(`products/${encodeURIComponent(record.sku)}/stockItems/${stockItem.item_id}`, {
+        stockItem: { qty: updated.qty, is_in_stock: updated.is_in_stock },
+      });
+      results.push({ success: true, ...mapStockItemToOnx(record.sku, updated, vendorNs) });
+    } catch (error: unknown) {
+      results.push(fail(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  return results;
+}
+
+/** The quantity to save, or an error message when the record is invalid. */
+function nextQuantity(record: InventoryUpdate, currentQty: number | undefined): number | string {
+  const { quantity: absolute, delta } = record;
+  let quantity: number;
+  if (absolute !== undefined && delta === undefined) {
+    quantity = absolute;
+  } else if (delta !== undefined && absolute === undefined) {
+    quantity = (currentQty || 0) + delta;
+  } else {
+    return "Provide exactly one of quantity or delta";
+  }
+  if (quantity < 0) {
+    return `Resulting quantity ${quantity} is negative`;
+  }
+  return quantity;
+}
+
+/** M2 stock status (1 in stock, 0 out of stock): the explicit status, else by quantity. */
+function nextStatus(record: InventoryUpdate, quantity: number): number {
+  if (record.status) return record.status === "in_stock" ? 1 : 0;
+  return quantity > 0 ? 1 : 0;
+}
+
+function sourceKey(sku: string, sourceCode: string): string {
+  return `${sku}\u0000${sourceCode}`;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
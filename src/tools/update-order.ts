@@ -4,17 +4,40 @@
  * Matches: UpdateOrderInputSchema from reference server
  * Input: { id: string, updates: Partial<Order> (minus immutable fields) }
  *
- * The reference server accepts ANY Order field as updatable. Magento 2 has limited
- * order update capabilities, so we map what we can (comments, hold/unhold, addresses)
- * and pass through the rest as best-effort.
+ * The reference server accepts ANY Order field as updatable. Magento 2 can
+ * hold/unhold an order, add comments, edit the billing and shipping addresses,
+ * change the customer's email and name, the external ID, the shipping carrier
+ * label and the gift message. The gift message is saved with the order
+ * through the order repository, which M2 refuses when gift messages are
+ * disabled for the store. The shipping method (shippingCode), totals, lines,
+ * payments and the like are fixed once the order is placed; every field that
+ * could not be applied is listed in `unappliedFields` instead of being
+ * dropped silently.
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { MagentoClient } from "../client/magento-client.js";
-import type { M2Order } from "../types/magento.js";
-import { mapM2OrderToOnx } from "../mappers/order-mapper.js";
-import { addressSchema, customFieldSchema, successResult, errorResult } from "./_helpers.js";
+import { MagentoApiError } from "../client/magento-client.js";
+import type { IdempotencyStore } from "../idempotency-store.js";
+import type { M2Address, M2Order } from "../types/magento.js";
+import { mapM2OrderToOnx, orderNoteComment } from "../mappers/order-mapper.js";
+import { addressSchema, customFieldSchema, storeScopeSchema, idempotencyKeySchema, successResult, errorResult } from "./_helpers.js";
+import { saveOrderFields, type OnxAddress } from "./_orders.js";
+
+/** Update fields this tool writes to M2; any other field present is reported as unapplied. */
+const APPLIED_FIELDS = new Set([
+  "status",
+  "orderNote",
+  "billingAddress",
+  "shippingAddress",
+  "customer",
+  "externalId",
+  "shippingCarrier",
+  "giftNote",
+]);
+
+const HOLD_STATUSES = new Set(["holded", "on_hold"]);
 
 const lineItemSchema = z.object({
   id: z.string().optional(),
@@ -27,10 +50,10 @@ const lineItemSchema = z.object({
   customFields: z.array(customFieldSchema).optional(),
 });
 
-export function registerUpdateOrder(server: McpServer, client: MagentoClient, vendorNs: string) {
+export function registerUpdateOrder(server: McpServer, client: MagentoClient, vendorNs: string, idempotency: IdempotencyStore) {
   server.tool(
     "update-order",
-    "Modify order details and metadata. Accepts any Order field; Magento 2 supports hold/unhold, comments, and address updates.",
+    "Modify order details and metadata. Magento 2 applies hold/unhold, comments, billing/shipping address, customer email/name, externalId, shipping carrier label and gift note; any other field, including shippingCode, is returned in unappliedFields.",
     {
       id: z.string().describe("Order ID"),
       updates: z.object({
@@ -68,58 +91,139 @@ export function registerUpdateOrder(server: McpServer, client: MagentoClient, ve
         giftNote: z.string().optional(),
         incoterms: z.string().optional(),
       }).describe("Fields to update (at least one field required)"),
+      ...storeScopeSchema,
+      ...idempotencyKeySchema,
     },
     async (params) => {
       try {
-        const sourceId = params.id;
+        const api = client.forStore(params);
+        return await idempotency.run(`update-order:${api.store.tenantId}`, params.idempotencyKey, params, async () => {
+          const sourceId = params.id;
+          const updates = params.updates;
+          const order = await api.get<M2Order>(`orders/${sourceId}`);
+          const unappliedFields = Object.keys(updates).filter(
+            (field) => updates[field as keyof typeof updates] !== undefined && !APPLIED_FIELDS.has(field)
+          );
+
+          // Addresses are saved through the order address repository
+          if (updates.billingAddress) {
+            if (order.billing_address?.entity_id) {
+              await saveOrderAddress(api, order, order.billing_address, updates.billingAddress, "billing");
+            } else {
+              unappliedFields.push("billingAddress");
+            }
+          }
+          if (updates.shippingAddress) {
+            // Virtual orders have no shipping address to edit
+            const shippingAddress = order.extension_attributes?.shipping_assignments?.[0]?.shipping?.address;
+            if (shippingAddress?.entity_id) {
+              await saveOrderAddress(api, order, shippingAddress, updates.shippingAddress, "shipping");
+            } else {
+              unappliedFields.push("shippingAddress");
+            }
+          }
 
-        // Handle hold/unhold via status
-        if (params.updates.status === "holded" || params.updates.status === "on_hold") {
-          await client.post(`orders/${sourceId}/hold`, {});
-        } else if (params.updates.status === "unhold") {
-          await client.post(`orders/${sourceId}/unhold`, {});
-        }
+          const fields: Record<string, unknown> = {
+            customer_email: updates.customer?.email,
+            customer_firstname: updates.customer?.firstName,
+            customer_lastname: updates.customer?.lastName,
+            ext_order_id: updates.externalId,
+            shipping_description: updates.shippingCarrier,
+          };
+          for (const key of Object.keys(fields)) {
+            if (fields[key] === undefined) delete fields[key];
+          }
+          if (Object.keys(fields).length > 0) {
+            await saveOrderFields(api, order.entity_id, fields);
+          }
 
-        // Add comment if provided
-        if (params.updates.orderNote) {
-          await client.post(`orders/${sourceId}/comments`, {
-            statusHistory: {
-              comment: params.updates.orderNote,
-              is_customer_notified: 0,
-              is_visible_on_front: 0,
-            },
-          });
-        }
+          if (updates.giftNote !== undefined) {
+            // M2 has no order gift-message route; the order save stores extension_attributes.gift_message
+            const current = order.extension_attributes?.gift_message;
+            try {
+              await saveOrderFields(api, order.entity_id, {
+                extension_attributes: {
+                  gift_message: {
+                    sender: current?.sender || order.customer_firstname || "",
+                    recipient: current?.recipient || "",
+                    message: updates.giftNote,
+                  },
+                },
+              });
+            } catch (error: unknown) {
+              if (!(error instanceof MagentoApiError)) throw error;
+              unappliedFields.push("giftNote");
+            }
+          }
+
+          // Handle hold/unhold via status; other statuses are set by M2's own workflow
+          if (updates.status !== undefined) {
+            if (HOLD_STATUSES.has(updates.status)) {
+              await api.post(`orders/${sourceId}/hold`, {});
+            } else if (updates.status === "unhold") {
+              await api.post(`orders/${sourceId}/unhold`, {});
+            } else {
+              unappliedFields.push("status");
+            }
+          }
 
-        // Update billing address if provided
-        if (params.updates.billingAddress) {
-          const order = await client.get<M2Order>(`orders/${sourceId}`);
-          if (order.billing_address) {
-            const addr = params.updates.billingAddress;
-            const updatedAddr = {
-              ...order.billing_address,
-              ...(addr.firstName && { firstname: addr.firstName }),
-              ...(addr.lastName && { lastname: addr.lastName }),
-              ...(addr.company && { company: addr.company }),
-              ...(addr.address1 && { street: [addr.address1, addr.address2 || ""] }),
-              ...(addr.city && { city: addr.city }),
-              ...(addr.stateOrProvince && { region_code: addr.stateOrProvince }),
-              ...(addr.zipCodeOrPostalCode && { postcode: addr.zipCodeOrPostalCode }),
-              ...(addr.country && { country_id: addr.country }),
-              ...(addr.phone && { telephone: addr.phone }),
-              ...(addr.email && { email: addr.email }),
-            };
-            await client.put(`orders/${sourceId}`, {
-              entity: { entity_id: parseInt(sourceId, 10), billing_address: updatedAddr },
+          // Add comment if provided
+          if (updates.orderNote) {
+            await api.post(`orders/${sourceId}/comments`, {
+              statusHistory: {
+                comment: orderNoteComment(updates.orderNote),
+                is_customer_notified: 0,
+                is_visible_on_front: 0,
+              },
             });
           }
-        }
 
-        const order = await client.get<M2Order>(`orders/${sourceId}`);
-        return successResult({ order: mapM2OrderToOnx(order, vendorNs) });
+          const updated = await api.get<M2Order>(`orders/${sourceId}`);
+          return successResult({
+            order: mapM2OrderToOnx(updated, vendorNs),
+            unappliedFields: unappliedFields.length > 0 ? unappliedFields : undefined,
+          });
+        });
       } catch (error: unknown) {
         return errorResult(`update-order failed: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
   );
 }
+
+/**
+ * Save an order address (PUT orders/{parent_id}) with the given onX fields
+ * merged over its current values.
+ */
+async function saveOrderAddress(
+  client: MagentoClient,
+  order: M2Order,
+  current: M2Address,
+  addr: OnxAddress,
+  addressType: "billing" | "shipping"
+) {
+  const street = addr.address1 !== undefined || addr.address2 !== undefined
+    ? [addr.address1 ?? current.street?.[0] ?? "", addr.address2 ?? current.street?.[1] ?? ""].filter(Boolean)
+    : current.street;
+  const entity: M2Address = {
+    ...current,
+    parent_id: order.entity_id,
+    address_type: addressType,
+    firstname: addr.firstName ?? current.firstname,
+    lastname: addr.lastName ?? current.lastname,
+    company: addr.company ?? current.company,
+    street,
+    city: addr.city ?? current.city,
+    postcode: addr.zipCodeOrPostalCode ?? current.postcode,
+    country_id: addr.country ?? current.country_id,
+    telephone: addr.phone ?? current.telephone,
+    email: addr.email ?? current.email,
+  };
+  if (addr.stateOrProvince !== undefined) {
+    // A new region replaces the old one; its region_id would otherwise win
+    entity.region_code = addr.stateOrProvince;
+    entity.region = addr.stateOrProvince;
+    delete entity.region_id;
+  }
+  await client.put(`orders/${order.entity_id}`, { entity });
+}
@@ -0,0 +1,331 @@
+/**
+ * onX tool: update-return
+ *
+ * Input: { id, action, lineItems?, declineReason?, comment?, notifyCustomer?, labels? }
+ *
+ * Moves an Adobe Commerce RMA through its lifecycle, item by item:
+ *   authorize — qty_authorized (default: the requested quantity)
+ *   receive   — qty_returned (default: the authorized quantity)
+ *   inspect   — records each line's condition and resolution; quantities are unchanged
+ *   approve   — qty_approved (default: the returned quantity)
+ *   reject    — denies pending items and rejects authorized or received ones
+ * Lines left out of `lineItems` are not touched. The RMA status is recomputed
+ * from the item statuses, the change is recorded as an RMA comment with the
+ * new status (this is what receivedAt/completedAt are read from), a decline
+ * reason is added as a customer-visible comment and return labels are
+ * attached as RMA tracks.
+ *
+ * With `refund` (default ONX_RMA_REFUND_ON_APPROVAL), approving items issues
+ * a credit memo for the approved quantities before the RMA is saved — online
+ * against the captured invoice when there is one, otherwise offline — less
+ * `restockingFee` and plus `shippingRefundAmount`. Items whose condition or
+ * resolution marks them as damaged or scrapped are not returned to stock.
+ * Items resolved as "exchange" (create-return sets this for exchanges) have
+ * already paid for the replacement order and are not refunded.
+ * The credit memo carries an "[RMA #...]" marker, in an internal comment
+ * left out of the customer email, that get-returns uses to report the refund
+ * on the return.
+ *
+ * RMAs are an Adobe Commerce feature; on Open Source the tool fails.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { MagentoClient } from "../client/magento-client.js";
+import type { AdapterConfig } from "../config.js";
+import type { IdempotencyStore } from "../idempotency-store.js";
+import type { M2Rma, M2RmaItem } from "../types/magento.js";
+import { mapM2RmaToOnxReturn, normalizeLabel, type RmaOptionLabels } from "../mappers/return-mapper.js";
+import { storeScopeSchema, idempotencyKeySchema, successResult, errorResult } from "./_helpers.js";
+import {
+  getRmaOptionLabels,
+  rmaOptionValue,
+  issueCreditMemo,
+  findCreditMemoByMarker,
+  rmaCreditMemoMarker,
+  getRmaCreditMemos,
+} from "./_returns.js";
+
+type ReturnAction = "authorize" | "receive" | "inspect" | "approve" | "reject";
+
+interface ReturnLineUpdate {
+  id?: string;
+  orderLineItemId?: string;
+  sku?: string;
+  quantity?: number;
+  inspection?: { conditionCategory?: string; dispositionOutcome?: string; note?: string };
+}
+
+/** Item statuses each action applies to */
+const ACTION_FROM_STATUSES: Record<ReturnAction, string[]> = {
+  authorize: ["pending"],
+  receive: ["authorized"],
+  inspect: ["received"],
+  approve: ["received"],
+  reject: ["pending", "authorized", "received"],
+};
+
+const FINAL_ITEM_STATUSES = new Set(["approved", "rejected", "denied"]);
+
+/** Condition or resolution labels (normalized) whose items are not put back in stock */
+const NO_RESTOCK_DISPOSITIONS = new Set(["damaged", "defective", "dispose", "discard", "destroy", "scrap"]);
+
+export function registerUpdateReturn(
+  server: McpServer,
+  client: MagentoClient,
+  vendorNs: string,
+  idempotency: IdempotencyStore,
+  config: Pick<AdapterConfig, "rmaRefundOnApproval">
+) {
+  server.tool(
+    "update-return",
+    "Move an Adobe Commerce RMA through its lifecycle: authorize, receive, inspect, approve or reject its items. Sets authorized/returned/approved quantities, condition and resolution, adds decline reasons as comments and attaches return labels as tracking numbers. With refund=true, approving items issues a credit memo for them.",
+    {
+      id: z.string().describe("Return ID (RMA entity ID)"),
+      action: z.enum(["authorize", "receive", "inspect", "approve", "reject"]).describe("Lifecycle step to apply"),
+      lineItems: z.array(z.object({
+        id: z.string().optional().describe("Return line item ID (matched by orderLineItemId or SKU if omitted)"),
+        orderLineItemId: z.string().optional(),
+        sku: z.string().optional(),
+        quantity: z.number().min(0).optional().describe("Quantity authorized, received or approved (default: the quantity of the previous step)"),
+        inspection: z.object({
+          conditionCategory: z.string().optional().describe("Item condition, e.g. \"Opened\" or \"Damaged\""),
+          dispositionOutcome: z.string().optional().describe("Resolution, e.g. \"refund\", \"exchange\" or \"store_credit\""),
+          note: z.string().optional(),
+        }).optional(),
+      })).optional().describe("Lines to update (omit for every line the action applies to)"),
+      declineReason: z.string().optional().describe("Why the return is rejected (added as a customer-visible comment)"),
+      comment: z.string().optional().describe("Comment to record with the status change"),
+      notifyCustomer: z.boolean().optional().describe("Notify the customer of the comment"),
+      labels: z.array(z.object({
+        carrier: z.string(),
+        trackingNumber: z.string(),
+        carrierCode: z.string().optional().describe("M2 carrier code (default: custom)"),
+      })).optional().describe("Return labels to attach as RMA tracking numbers"),
+      refund: z.boolean().optional().describe("On approve, issue a credit memo for the approved quantities (default: ONX_RMA_REFUND_ON_APPROVAL)"),
+      restockingFee: z.number().min(0).optional().describe("Amount withheld from the refund"),
+      shippingRefundAmount: z.number().min(0).optional().describe("Shipping amount to refund"),
+      ...storeScopeSchema,
+      ...idempotencyKeySchema,
+    },
+    async (params) => {
+      try {
+        const api = client.forStore(params);
+        return await idempotency.run(`update-return:${api.store.tenantId}`, params.idempotencyKey, params, async () => {
+          const rma = await api.get<M2Rma>(`returns/${params.id}`);
+          const labels = await getRmaOptionLabels(api);
+
+          const planned = planItemUpdates(rma, params.action, params.lineItems, labels);
+          if (typeof planned === "string") {
+            return errorResult(`update-return failed: ${planned}`);
+          }
+
+          let creditMemoId: number | undefined;
+          const refundable = planned.approved.filter((item) => !isExchanged(item, labels));
+          if (params.action === "approve" && refundable.length > 0 && (params.refund ?? config.rmaRefundOnApproval)) {
+            creditMemoId = await refundApprovedItems(api, rma, refundable, labels, params);
+          }
+
+          const status = rmaStatusFromItems(planned.items);
+          // Comments and tracks have their own endpoints; sending them back would duplicate them
+          const { tracks } = rma;
+          const entity: Partial<M2Rma> = { ...rma };
+          delete entity.comments;
+          delete entity.tracks;
+          await api.put(`returns/${params.id}`, {
+            rmaDataInterface: { ...entity, status, items: planned.items },
+          });
+
+          const comment = [
+            params.comment,
+            params.action === "reject" ? params.declineReason : undefined,
+            ...planned.notes,
+            creditMemoId !== undefined ? `Refunded in credit memo ${creditMemoId}` : undefined,
+          ].filter(Boolean).join("\n");
+          if (comment || status !== rma.status) {
+            await api.post(`returns/${params.id}/comments`, {
+              data: {
+                rma_entity_id: rma.entity_id,
+                comment: comment || `Return ${status.replace(/_/g, " ")} via onX`,
+                status,
+                is_admin: true,
+                is_customer_notified: params.notifyCustomer || false,
+                is_visible_on_front: params.notifyCustomer || !!params.declineReason,
+              },
+            });
+          }
+
+          // Tracks already on the RMA are not added again
+          const tracked = new Set((tracks || []).map((t) => t.track_number));
+          for (const label of params.labels || []) {
+            if (tracked.has(label.trackingNumber)) continue;
+            await api.post(`returns/${params.id}/tracking-numbers`, {
+              track: {
+                rma_entity_id: rma.entity_id,
+                track_number: label.trackingNumber,
+                carrier_title: label.carrier,
+                carrier_code: label.carrierCode || "custom",
+              },
+            });
+          }
+
+          const updated = await api.get<M2Rma>(`returns/${params.id}`);
+          const creditMemos = await getRmaCreditMemos(api, [updated]);
+          return successResult({
+            return: mapM2RmaToOnxReturn(updated, vendorNs, labels, creditMemos.get(updated.entity_id)),
+          });
+        });
+      } catch (error: unknown) {
+        return errorResult(`update-return failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  );
+}
+
+/**
+ * Apply the action to the RMA's items. Returns the full item list with the
+ * changes, the items approved by this call and the inspection notes, or an
+ * error message when a line cannot take the action.
+ */
+function planItemUpdates(
+  rma: M2Rma,
+  action: ReturnAction,
+  lines: ReturnLineUpdate[] | undefined,
+  labels: RmaOptionLabels
+): { items: M2RmaItem[]; approved: M2RmaItem[]; notes: string[] } | string {
+  const items = (rma.items || []).map((item) => ({ ...item }));
+  const fromStatuses = ACTION_FROM_STATUSES[action];
+
+  let targets: Array<{ item: M2RmaItem; line?: ReturnLineUpdate }>;
+  if (lines?.length) {
+    targets = [];
+    for (const line of lines) {
+      const item = items.find((i) =>
+        line.id ? String(i.entity_id) === line.id
+          : line.orderLineItemId ? String(i.order_item_id) === line.orderLineItemId
+          : i.product_sku === line.sku
+      );
+      if (!item) {
+        return `line ${line.id || line.orderLineItemId || line.sku || "(unidentified)"} not found on return ${rma.increment_id || rma.entity_id}`;
+      }
+      targets.push({ item, line });
+    }
+  } else {
+    targets = items.filter((i) => fromStatuses.includes(i.status || "pending")).map((item) => ({ item }));
+  }
+  if (targets.length === 0) {
+    return `no line of return ${rma.increment_id || rma.entity_id} can be ${action === "inspect" ? "inspected" : `${action}d`}`;
+  }
+
+  const errors: string[] = [];
+  const notes: string[] = [];
+  const approved: M2RmaItem[] = [];
+  for (const { item, line } of targets) {
+    const sku = item.product_sku || String(item.order_item_id);
+    const status = item.status || "pending";
+    if (!fromStatuses.includes(status)) {
+      errors.push(`${sku} is ${status}`);
+      continue;
+    }
+
+    const limit = action === "authorize" ? item.qty_requested
+      : action === "receive" ? item.qty_authorized || 0
+      : item.qty_returned || 0;
+    const quantity = line?.quantity ?? limit;
+    if (quantity > limit) {
+      errors.push(`${sku} (requested ${quantity}, at most ${limit})`);
+      continue;
+    }
+
+    const inspection = line?.inspection;
+    if (inspection?.conditionCategory) item.condition = rmaOptionValue(labels.condition, inspection.conditionCategory);
+    if (inspection?.dispositionOutcome) item.resolution = rmaOptionValue(labels.resolution, inspection.dispositionOutcome);
+    if (inspection?.note) notes.push(`${sku}: ${inspection.note}`);
+
+    switch (action) {
+      case "authorize":
+        item.qty_authorized = quantity;
+        item.status = quantity > 0 ? "authorized" : "denied";
+        break;
+      case "receive":
+        item.qty_returned = quantity;
+        item.status = "received";
+        break;
+      case "approve":
+        item.qty_approved = quantity;
+        item.status = quantity > 0 ? "approved" : "rejected";
+        if (quantity > 0) approved.push(item);
+        break;
+      case "reject":
+        item.status = status === "pending" ? "denied" : "rejected";
+        break;
+    }
+  }
+
+  if (errors.length > 0) {
+    return `cannot ${action} ${errors.join(", ")}`;
+  }
+  return { items, approved, notes };
+}
+
+/**
+ * Issue the credit memo for approved RMA items and return its ID. With an
+ * idempotencyKey, a credit memo created by an earlier attempt is reused.
+ */
+async function refundApprovedItems(
+  client: MagentoClient,
+  rma: M2Rma,
+  approved: M2RmaItem[],
+  labels: RmaOptionLabels,
+  params: { restockingFee?: number; shippingRefundAmount?: number; notifyCustomer?: boolean; idempotencyKey?: string }
+): Promise<number> {
+  const orderId = String(rma.order_id);
+  const marker = params.idempotencyKey ? `[onX idempotency key: ${params.idempotencyKey}]` : "";
+  const findExisting = () => findCreditMemoByMarker(client, orderId, marker);
+  const existingId = marker ? await findExisting() : undefined;
+  if (existingId !== undefined) return existingId;
+
+  const { creditMemoId } = await issueCreditMemo(client, orderId, {
+    items: approved.map((item) => ({ order_item_id: item.order_item_id, qty: item.qty_approved || 0 })),
+    online: true,
+    shippingAmount: params.shippingRefundAmount,
+    adjustmentNegative: params.restockingFee,
+    returnToStockItems: approved.filter((item) => isRestockable(item, labels)).map((item) => item.order_item_id),
+    comment: [`Refund for return ${rmaCreditMemoMarker(rma)}`, marker].filter(Boolean).join(" "),
+    notify: params.notifyCustomer,
+  }, marker ? { retry: true, recover: findExisting } : {});
+  return creditMemoId;
+}
+
+/** Whether the item's inspected condition and resolution allow it back into stock */
+function isRestockable(item: M2RmaItem, labels: RmaOptionLabels): boolean {
+  const dispositions = [
+    item.condition && (labels.condition.get(String(item.condition)) ?? item.condition),
+    item.resolution && (labels.resolution.get(String(item.resolution)) ?? item.resolution),
+  ].filter((d): d is string => !!d);
+  return !dispositions.some((d) => NO_RESTOCK_DISPOSITIONS.has(normalizeLabel(d)));
+}
+
+/** Whether the item was returned for an exchange, which its value has already paid for */
+function isExchanged(item: M2RmaItem, labels: RmaOptionLabels): boolean {
+  const resolution = item.resolution && (labels.resolution.get(String(item.resolution)) ?? item.resolution);
+  return !!resolution && normalizeLabel(resolution) === "exchange";
+}
+
+/**
+ * The RMA status for its item statuses, as M2's admin computes it: closed
+ * once every item is decided (processed_closed if any was approved), else
+ * the least advanced open step, marked "_on_item" when items differ.
+ */
+function rmaStatusFromItems(items: M2RmaItem[]): string {
+  const statuses = new Set(items.map((i) => i.status || "pending"));
+  const open = [...statuses].filter((s) => !FINAL_ITEM_STATUSES.has(s));
+  if (open.length === 0) {
+    return statuses.has("approved") ? "processed_closed" : "closed";
+  }
+  if (statuses.has("pending")) return statuses.size === 1 ? "pending" : "partially_authorized";
+  if (statuses.has("authorized")) return open.length === 1 ? "authorized" : "received_on_item";
+  if (statuses.has("approved")) return "approved_on_item";
+  if (statuses.has("rejected") || statuses.has("denied")) return "rejected_on_item";
+  return "received";
+}
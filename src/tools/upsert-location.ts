@@ -0,0 +1,127 @@
+/**
+ * onX tool: upsert-location
+ *
+ * Input: { id, name?, enabled?, description?, contactName?, address?, latitude?, longitude?, stocks? }
+ *
+ * Creates or updates an inventory location (M2 MSI source, id = source code).
+ * Fields left out keep their current value; a new location needs a name, a
+ * country and a postal code. `stocks` links the location to stocks — links
+ * not listed are left in place. A new link without a priority is added after
+ * the stock's existing sources.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { MagentoClient, MagentoListResponse } from "../client/magento-client.js";
+import { MagentoApiError } from "../client/magento-client.js";
+import type { IdempotencyStore } from "../idempotency-store.js";
+import type { M2Source, M2StockSourceLink } from "../types/magento.js";
+import { mapM2SourceToOnxLocation } from "../mappers/location-mapper.js";
+import { addressSchema, storeScopeSchema, idempotencyKeySchema, successResult, errorResult } from "./_helpers.js";
+import { getSourceStockLinks } from "./_inventory.js";
+
+export function registerUpsertLocation(server: McpServer, client: MagentoClient, vendorNs: string, idempotency: IdempotencyStore) {
+  server.tool(
+    "upsert-location",
+    "Create or update an inventory location (Magento MSI source) and link it to stocks. Omitted fields keep their current values; new locations require name, address.country and address.zipCodeOrPostalCode.",
+    {
+      id: z.string().describe("Location ID (MSI source code)"),
+      name: z.string().optional(),
+      enabled: z.boolean().optional().describe("Whether the location can be used (default true for new locations)"),
+      description: z.string().optional(),
+      contactName: z.string().optional(),
+      address: addressSchema.optional(),
+      latitude: z.number().optional(),
+      longitude: z.number().optional(),
+      stocks: z.array(z.object({
+        id: z.string().describe("Stock ID"),
+        priority: z.number().optional().describe("Source priority within the stock (lower is preferred)"),
+      })).optional().describe("Stocks this location feeds"),
+      ...storeScopeSchema,
+      ...idempotencyKeySchema,
+    },
+    async (params) => {
+      try {
+        const api = client.forStore(params);
+        return await idempotency.run(`upsert-location:${api.store.tenantId}`, params.idempotencyKey, params, async () => {
+          const code = encodeURIComponent(params.id);
+          const existing = await api.get<M2Source>(`inventory/sources/${code}`).catch((error: unknown) => {
+            if (error instanceof MagentoApiError && error.statusCode === 404) return undefined;
+            throw error;
+          });
+
+          // M2 keeps one street field; address1 and address2 are its first two lines
+          const addr = params.address;
+          const [street1, street2] = (existing?.street || "").split("\n");
+          const street = [addr?.address1 ?? street1, addr?.address2 ?? street2].filter(Boolean).join("\n") || undefined;
+          const source: M2Source = {
+            ...existing,
+            source_code: params.id,
+            name: params.name ?? existing?.name ?? "",
+            enabled: params.enabled ?? existing?.enabled ?? true,
+            description: params.description ?? existing?.description,
+            contact_name: params.contactName ?? existing?.contact_name,
+            email: addr?.email ?? existing?.email,
+            phone: addr?.phone ?? existing?.phone,
+            street,
+            city: addr?.city ?? existing?.city,
+            region: addr?.stateOrProvince ?? existing?.region,
+            postcode: addr?.zipCodeOrPostalCode ?? existing?.postcode ?? "",
+            country_id: addr?.country ?? existing?.country_id ?? "",
+            latitude: params.latitude ?? existing?.latitude,
+            longitude: params.longitude ?? existing?.longitude,
+          };
+          if (addr?.stateOrProvince !== undefined && addr.stateOrProvince !== existing?.region) {
+            // A new region replaces the old one; its region_id would otherwise win
+            delete source.region_id;
+          }
+
+          if (!existing) {
+            const missing = [
+              !source.name && "name",
+              !source.country_id && "address.country",
+              !source.postcode && "address.zipCodeOrPostalCode",
+            ].filter(Boolean);
+            if (missing.length > 0) {
+              return errorResult(`upsert-location failed: a new location requires ${missing.join(", ")}`);
+            }
+            await api.post("inventory/sources", { source });
+          } else {
+            await api.put(`inventory/sources/${code}`, { source });
+          }
+
+          if (params.stocks?.length) {
+            await linkStocks(api, params.id, params.stocks);
+          }
+
+          const saved = await api.get<M2Source>(`inventory/sources/${code}`);
+          const { links, stocks } = await getSourceStockLinks(api, [saved.source_code]);
+          return successResult({
+            location: mapM2SourceToOnxLocation(saved, links, stocks, vendorNs),
+            created: !existing,
+          });
+        });
+      } catch (error: unknown) {
+        return errorResult(`upsert-location failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  );
+}
+
+async function linkStocks(client: MagentoClient, sourceCode: string, stocks: Array<{ id: string; priority?: number }>) {
+  const current = await client.get<MagentoListResponse<M2StockSourceLink>>("inventory/stock-source-links", {
+    filterGroups: [{ filters: [{ field: "stock_id", value: stocks.map((s) => s.id).join(","), conditionType: "in" }] }],
+  });
+  const stockLinks = current.items || [];
+
+  const links = stocks.map((stock) => {
+    const stockId = parseInt(stock.id, 10);
+    const inStock = stockLinks.filter((l) => l.stock_id === stockId);
+    const own = inStock.find((l) => l.source_code === sourceCode);
+    // Priorities run from most preferred (lowest) up; a new link goes after the last one
+    const lastPriority = Math.max(0, ...inStock.map((l) => l.priority || 0));
+    return { stock_id: stockId, source_code: sourceCode, priority: stock.priority ?? own?.priority ?? lastPriority + 1 };
+  });
+
+  await client.post("inventory/stock-source-links", { links });
+}
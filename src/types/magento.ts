@@ -8,6 +8,10 @@
 // ---------- Shared ----------
 
 export interface M2Address {
+  /** Set on order addresses */
+  entity_id?: number;
+  parent_id?: number;
+  address_type?: "billing" | "shipping";
   firstname?: string;
   lastname?: string;
   company?: string;
@@ -15,6 +19,7 @@ export interface M2Address {
   city?: string;
   region_code?: string;
   region?: string;
+  region_id?: number;
   postcode?: string;
   country_id?: string;
   telephone?: string;
@@ -75,6 +80,7 @@ export interface M2Product {
   extension_attributes?: {
     configurable_product_options?: M2ConfigurableOption[];
     category_links?: M2CategoryLink[];
+    stock_item?: M2StockItem;
   };
 }
 
@@ -110,18 +116,60 @@ export interface M2Customer {
 
 export interface M2OrderItem {
   item_id: number;
+  parent_item_id?: number;
   sku: string;
   name?: string;
   qty_ordered: number;
+  qty_shipped?: number;
+  qty_invoiced?: number;
+  qty_refunded?: number;
+  qty_canceled?: number;
   price: number;
   discount_amount?: number;
+  base_discount_amount?: number;
+  tax_amount?: number;
+  base_tax_amount?: number;
+  tax_percent?: number;
   row_total: number;
+  base_row_total?: number;
   product_type?: string;
+  is_virtual?: number;
+}
+
+export interface M2OrderStatusHistory {
+  entity_id?: number;
+  comment?: string;
+  status?: string;
+  created_at: string;
+  is_customer_notified?: number | null;
+  is_visible_on_front?: number;
+  entity_name?: string;
+}
+
+export interface M2GiftMessage {
+  gift_message_id?: number;
+  sender?: string;
+  recipient?: string;
+  message: string;
+}
+
+export interface M2OrderPayment {
+  method: string;
+  amount_ordered?: number;
+  amount_paid?: number;
+  amount_authorized?: number;
+  amount_refunded?: number;
+  amount_canceled?: number;
+  last_trans_id?: string;
+  cc_type?: string;
+  cc_last4?: string;
+  po_number?: string;
 }
 
 export interface M2Order {
   entity_id: number;
   ext_order_id?: string;
+  quote_id?: number;
   increment_id: string;
   state: string;
   status: string;
@@ -130,13 +178,33 @@ export interface M2Order {
   customer_email: string;
   customer_firstname?: string;
   customer_lastname?: string;
+  customer_id?: number;
+  customer_is_guest?: number;
   billing_address?: M2Address;
   order_currency_code: string;
   subtotal: number;
   grand_total: number;
+  base_grand_total?: number;
   tax_amount: number;
   discount_amount?: number;
-  payment?: { method: string };
+  discount_description?: string;
+  coupon_code?: string;
+  /** Comma-separated sales rule IDs */
+  applied_rule_ids?: string;
+  total_paid?: number;
+  total_invoiced?: number;
+  total_refunded?: number;
+  total_canceled?: number;
+  base_total_canceled?: number;
+  subtotal_canceled?: number;
+  base_subtotal_canceled?: number;
+  tax_canceled?: number;
+  base_tax_canceled?: number;
+  discount_canceled?: number;
+  base_discount_canceled?: number;
+  payment?: M2OrderPayment;
+  customer_note?: string;
+  status_histories?: M2OrderStatusHistory[];
   shipping_description?: string;
   shipping_method?: string;
   shipping_amount?: number;
@@ -148,9 +216,33 @@ export interface M2Order {
         address?: M2Address;
       };
     }>;
+    gift_message?: M2GiftMessage;
   };
 }
 
+// ---------- Cart ----------
+
+export interface M2Cart {
+  id: number;
+  is_virtual?: boolean;
+  items?: Array<{ item_id: number; sku: string; qty: number }>;
+}
+
+export interface M2ShippingMethod {
+  carrier_code: string;
+  method_code: string;
+  carrier_title?: string;
+  method_title?: string;
+  amount: number;
+  available: boolean;
+  error_message?: string;
+}
+
+export interface M2ProductAttribute {
+  attribute_id: number;
+  attribute_code: string;
+}
+
 // ---------- Shipment ----------
 
 export interface M2ShipmentItem {
@@ -173,6 +265,7 @@ export interface M2Shipment {
   increment_id?: string;
   items?: M2ShipmentItem[];
   tracks?: M2ShipmentTrack[];
+  comments?: Array<{ comment: string; is_visible_on_front?: number }>;
   shipping_address?: M2Address;
   created_at: string;
   updated_at: string;
@@ -185,9 +278,16 @@ export interface M2Shipment {
 
 export interface M2RmaItem {
   entity_id?: number;
+  rma_entity_id?: number;
   order_item_id: number;
   product_sku?: string;
   qty_requested: number;
+  qty_authorized?: number;
+  qty_returned?: number;
+  qty_approved?: number;
+  /** pending, authorized, received, approved, rejected or denied */
+  status?: string;
+  /** reason, condition and resolution hold RMA item attribute option values */
   reason?: string;
   condition?: string;
   resolution?: string;
@@ -196,12 +296,19 @@ export interface M2RmaItem {
 }
 
 export interface M2RmaComment {
+  entity_id?: number;
   comment: string;
+  /** RMA status recorded with the comment */
+  status?: string;
   is_visible_on_front?: boolean;
   is_customer_notified?: boolean;
+  is_admin?: boolean;
+  created_at?: string;
 }
 
 export interface M2RmaTrack {
+  entity_id?: number;
+  carrier_code?: string;
   carrier_title?: string;
   track_number: string;
 }
@@ -210,6 +317,7 @@ export interface M2Rma {
   entity_id: number;
   increment_id?: string;
   order_id: number;
+  /** pending, authorized, partially_authorized, received, received_on_item, approved_on_item, rejected_on_item, closed or processed_closed */
   status?: string;
   items?: M2RmaItem[];
   comments?: M2RmaComment[];
@@ -217,6 +325,41 @@ export interface M2Rma {
   date_requested?: string;
 }
 
+export interface M2RmaAttributeMetadata {
+  attribute_code: string;
+  options?: Array<{ label: string; value: string }>;
+}
+
+// ---------- Invoice ----------
+
+export interface M2InvoiceItem {
+  entity_id?: number;
+  order_item_id: number;
+  sku?: string;
+  name?: string;
+  qty: number;
+  row_total?: number;
+}
+
+export interface M2InvoiceComment {
+  comment: string;
+}
+
+export interface M2Invoice {
+  entity_id: number;
+  increment_id?: string;
+  order_id: number;
+  /** 1 = open (pending capture), 2 = paid, 3 = canceled */
+  state?: number;
+  transaction_id?: string;
+  grand_total?: number;
+  order_currency_code?: string;
+  items?: M2InvoiceItem[];
+  comments?: M2InvoiceComment[];
+  created_at: string;
+  updated_at: string;
+}
+
 // ---------- Credit Memo ----------
 
 export interface M2CreditMemoItem {
@@ -231,6 +374,8 @@ export interface M2CreditMemoItem {
 
 export interface M2CreditMemoComment {
   comment: string;
+  is_customer_notified?: number;
+  is_visible_on_front?: number;
 }
 
 export interface M2CreditMemo {
@@ -243,7 +388,12 @@ export interface M2CreditMemo {
   subtotal?: number;
   grand_total?: number;
   shipping_amount?: number;
+  adjustment_positive?: number;
   adjustment_negative?: number;
+  /** 1 = open, 2 = refunded, 3 = canceled */
+  state?: number;
+  transaction_id?: string;
+  order_currency_code?: string;
   created_at: string;
   updated_at: string;
 }
@@ -254,8 +404,74 @@ export interface M2SourceItem {
   sku: string;
   source_code: string;
   quantity: number;
+  /** 1 = in stock, 0 = out of stock (disabled for sale) */
+  status?: number;
+}
+
+export interface M2StockSourceLink {
+  stock_id: number;
+  source_code: string;
+  priority?: number;
 }
 
 export interface M2StockItem {
+  item_id?: number;
   qty: number;
+  is_in_stock?: boolean;
+  manage_stock?: boolean;
+  backorders?: number;
+}
+
+export interface M2Source {
+  source_code: string;
+  name: string;
+  enabled: boolean;
+  description?: string;
+  email?: string;
+  contact_name?: string;
+  phone?: string;
+  latitude?: number;
+  longitude?: number;
+  country_id: string;
+  region_id?: number;
+  region?: string;
+  city?: string;
+  street?: string;
+  postcode: string;
+}
+
+export interface M2StockSalesChannel {
+  type: string;
+  code: string;
+}
+
+export interface M2Stock {
+  stock_id: number;
+  name: string;
+  extension_attributes?: {
+    sales_channels?: M2StockSalesChannel[];
+  };
+}
+
+export interface M2ProductSalableResult {
+  salable: boolean;
+  errors?: Array<{ code: string; message: string }>;
+}
+
+export interface M2SourceSelectionItem {
+  source_code: string;
+  sku: string;
+  qty_to_deduct: number;
+  qty_available: number;
+}
+
+export interface M2SourceSelectionResult {
+  shippable: boolean;
+  source_selection_items: M2SourceSelectionItem[];
+}
+
+export interface M2Website {
+  id: number;
+  code: string;
+  name?: string;
 }
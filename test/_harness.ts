@@ -0,0 +1,88 @@
+/**
+ * Test harness for the tool handlers: a MagentoClient built from stubbed env,
+ * a fetch stub that serves Magento routes and records every request, and a
+ * way to call a registered tool without an MCP transport.
+ */
+
+import { vi } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { loadConfig } from "../src/config.js";
+import { MagentoClient } from "../src/client/magento-client.js";
+
+export interface RecordedRequest {
+  method: string;
+  /** Endpoint path after /rest/V1/, or the full URL for other hosts (e.g. a hook) */
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+/** Handlers keyed by "METHOD path", e.g. "GET orders/1"; they return the JSON to send */
+export type Routes = Record<string, (request: RecordedRequest) => unknown>;
+
+class StatusResponse {
+  constructor(readonly status: number, readonly body: unknown) {}
+}
+
+/** A route result sent with a non-200 status */
+export function status(code: number, body: unknown = { message: `status ${code}` }): StatusResponse {
+  return new StatusResponse(code, body);
+}
+
+/**
+ * Serve `routes` for every fetch and record what was sent. Requests without a
+ * route get a 404, as M2 answers for an endpoint it does not have.
+ */
+export function stubMagento(routes: Routes): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    const parsed = new URL(url);
+    const endpoint = parsed.pathname.match(/^\/rest\/(?:[^/]+\/)?V1\/(.*)$/)?.[1];
+    const request: RecordedRequest = {
+      method: init.method || "GET",
+      path: endpoint !== undefined ? decodeURIComponent(endpoint) : `${parsed.origin}${parsed.pathname}`,
+      query: parsed.searchParams,
+      body: init.body ? JSON.parse(String(init.body)) : undefined,
+    };
+    requests.push(request);
+
+    const handler = routes[`${request.method} ${request.path}`];
+    const result = handler ? handler(request) : status(404, { message: `No route for ${request.method} ${request.path}` });
+    return result instanceof StatusResponse
+      ? new Response(JSON.stringify(result.body), { status: result.status })
+      : new Response(JSON.stringify(result), { status: 200 });
+  });
+  return requests;
+}
+
+/** A token-authenticated client for https://shop.example.com; `env` adds or overrides settings. */
+export function testClient(env: Record<string, string> = {}): MagentoClient {
+  vi.stubEnv("M2_BASE_URL", "https://shop.example.com");
+  vi.stubEnv("M2_AUTH_METHOD", "token");
+  vi.stubEnv("M2_ACCESS_TOKEN", "token");
+  vi.stubEnv("M2_RETRY_BASE_DELAY", "1");
+  for (const [key, value] of Object.entries(env)) vi.stubEnv(key, value);
+  return new MagentoClient(loadConfig([]));
+}
+
+type ToolHandler = (params: Record<string, unknown>) => Promise<{ content: Array<{ text: string }>; isError?: boolean }>;
+
+/** Capture the handler a register* function passes to server.tool. */
+export function captureTool(register: (server: McpServer) => void): ToolHandler {
+  let handler: ToolHandler | undefined;
+  const server = { tool: (...args: unknown[]) => { handler = args[args.length - 1] as ToolHandler; } };
+  register(server as unknown as McpServer);
+  if (!handler) throw new Error("no tool was registered");
+  return handler;
+}
+
+/** Call a tool and parse its JSON result. */
+export async function callTool(handler: ToolHandler, params: Record<string, unknown>) {
+  const result = await handler(params);
+  return { ...JSON.parse(result.content[0].text), isError: result.isError };
+}
+
+/** The recorded requests matching a method and path */
+export function sent(requests: RecordedRequest[], method: string, path: string): RecordedRequest[] {
+  return requests.filter((r) => r.method === method && r.path === path);
+}
@@ -0,0 +1,98 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { M2Order } from "../src/types/magento.js";
+import { IdempotencyStore } from "../src/idempotency-store.js";
+import { registerCancelOrder } from "../src/tools/cancel-order.js";
+import { callTool, captureTool, sent, stubMagento, testClient, type RecordedRequest } from "./_harness.js";
+
+function order(): M2Order {
+  return {
+    entity_id: 1,
+    increment_id: "000000001",
+    state: "processing",
+    status: "processing",
+    grand_total: 63,
+    subtotal: 60,
+    total_canceled: 0,
+    items: [
+      { item_id: 1, sku: "MUG", qty_ordered: 3, price: 10, row_total: 30, tax_amount: 3, discount_amount: -3 },
+      { item_id: 2, sku: "LAMP", qty_ordered: 1, qty_invoiced: 1, price: 30, row_total: 30, tax_amount: 3 },
+    ],
+  } as M2Order;
+}
+
+describe("cancel-order", () => {
+  let requests: RecordedRequest[];
+  let cancel: ReturnType<typeof captureTool>;
+
+  beforeEach(() => {
+    const client = testClient();
+    const store = new IdempotencyStore(join(tmpdir(), "onx-cancel-order-unused.json"), 0);
+    cancel = captureTool((server) => registerCancelOrder(server, client, "m2", store));
+    requests = stubMagento({
+      "GET orders/1": () => order(),
+      "POST orders": () => order(),
+      "POST orders/1/comments": () => true,
+      "POST orders/1/cancel": () => true,
+      "POST order/1/refund": () => 77,
+      "GET stockItems/MUG": () => ({ item_id: 5, qty: 10, is_in_stock: true }),
+      "PUT products/MUG/stockItems/5": () => 5,
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("saves qty_canceled with the cancelled totals and leaves the grand total alone", async () => {
+    const result = await callTool(cancel, { orderId: "1", lineItems: [{ sku: "MUG", quantity: 2 }] });
+
+    expect(result.success).toBe(true);
+    expect(sent(requests, "POST", "orders").map((r) => r.body)).toEqual([{
+      entity: {
+        entity_id: 1,
+        items: [{ item_id: 1, qty_canceled: 2 }],
+        subtotal_canceled: 20,
+        base_subtotal_canceled: 20,
+        tax_canceled: 2,
+        base_tax_canceled: 2,
+        discount_canceled: 2,
+        base_discount_canceled: 2,
+        total_canceled: 20,
+        base_total_canceled: 20,
+      },
+    }]);
+    expect(sent(requests, "PUT", "products/MUG/stockItems/5")[0].body).toEqual({ stockItem: { qty: 12, is_in_stock: true } });
+    expect(result.cancelledLineItems).toEqual([{ id: "1", sku: "MUG", quantityCancelled: 2, quantityRefunded: 0 }]);
+  });
+
+  it("refunds invoiced quantities offline instead of cancelling them", async () => {
+    const result = await callTool(cancel, { orderId: "1", lineItems: [{ sku: "LAMP", quantity: 1 }] });
+
+    expect(result.creditMemoId).toBe("77");
+    expect(sent(requests, "POST", "order/1/refund")[0].body).toMatchObject({ items: [{ order_item_id: 2, qty: 1 }] });
+    expect(sent(requests, "POST", "orders")).toEqual([]);
+    expect(result.orderCancelled).toBe(false);
+  });
+
+  it("cancels the whole order when no open quantity would remain", async () => {
+    const result = await callTool(cancel, {
+      orderId: "1",
+      lineItems: [{ sku: "MUG", quantity: 3 }, { sku: "LAMP", quantity: 1 }],
+    });
+
+    expect(result.orderCancelled).toBe(true);
+    expect(sent(requests, "POST", "orders/1/cancel")).toHaveLength(1);
+    expect(sent(requests, "POST", "order/1/refund")).toHaveLength(1);
+  });
+
+  it("rejects more than the open quantity before writing anything", async () => {
+    const result = await callTool(cancel, { orderId: "1", lineItems: [{ sku: "MUG", quantity: 4 }] });
+
+    expect(result.isError).toBe(true);
+    expect(result.error).toMatch(/MUG \(requested 4, open 3\)/);
+    expect(requests.filter((r) => r.method !== "GET")).toEqual([]);
+  });
+});
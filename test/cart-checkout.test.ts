@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MagentoClient } from "../src/client/magento-client.js";
+import { placeCartOrder, type CartOrderInput } from "../src/tools/_cart-checkout.js";
+import { sent, stubMagento, testClient, type RecordedRequest, type Routes } from "./_harness.js";
+
+const shippingMethods = [
+  { carrier_code: "flatrate", method_code: "flatrate", amount: 10, available: true },
+  { carrier_code: "tablerate", method_code: "bestway", amount: 7, available: true },
+  { carrier_code: "freeshipping", method_code: "freeshipping", amount: 0, available: false },
+];
+
+const guestOrder: CartOrderInput = {
+  lineItems: [{ sku: "MUG", quantity: 2 }],
+  customer: { email: "guest@example.org" },
+  shippingAddress: { firstName: "Ada", lastName: "Lovelace", city: "London", country: "GB" },
+};
+
+describe("placeCartOrder", () => {
+  let client: MagentoClient;
+  let routes: Routes;
+  let requests: RecordedRequest[];
+
+  beforeEach(() => {
+    client = testClient();
+    routes = {
+      "GET customers/search": () => ({ items: [], total_count: 0 }),
+      "POST guest-carts": () => "abc",
+      "POST guest-carts/abc/items": () => ({}),
+      "GET guest-carts/abc": () => ({ id: 5, is_virtual: false }),
+      "POST guest-carts/abc/estimate-shipping-methods": () => shippingMethods,
+      "POST guest-carts/abc/shipping-information": () => ({}),
+      "POST guest-carts/abc/payment-information": () => "42",
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("checks a guest out with the cheapest available shipping method", async () => {
+    requests = stubMagento(routes);
+    const beforePlace = vi.fn(async () => undefined);
+
+    await expect(placeCartOrder(client, guestOrder, "checkmo", beforePlace)).resolves.toBe(42);
+
+    expect(sent(requests, "POST", "guest-carts/abc/items")[0].body).toEqual({ cartItem: { sku: "MUG", qty: 2, quote_id: "abc" } });
+    expect(sent(requests, "POST", "guest-carts/abc/shipping-information")[0].body).toMatchObject({
+      addressInformation: { shipping_carrier_code: "tablerate", shipping_method_code: "bestway" },
+    });
+    expect(sent(requests, "POST", "guest-carts/abc/payment-information")[0].body).toMatchObject({
+      email: "guest@example.org",
+      paymentMethod: { method: "checkmo" },
+    });
+    expect(beforePlace).toHaveBeenCalledWith(5);
+  });
+
+  it("uses a customer cart for a known customer and applies the coupon", async () => {
+    requests = stubMagento({
+      "GET customers/search": () => ({ items: [{ id: 3, email: "ada@example.com" }], total_count: 1 }),
+      "POST customers/3/carts": () => 7,
+      "POST carts/7/items": () => ({}),
+      "GET carts/7": () => ({ id: 7, is_virtual: false }),
+      "POST carts/7/estimate-shipping-methods": () => shippingMethods,
+      "POST carts/7/shipping-information": () => ({}),
+      "PUT carts/7/coupons/SPRING 10": () => true,
+      "PUT carts/7/order": () => 43,
+    });
+
+    const orderId = await placeCartOrder(
+      client,
+      { ...guestOrder, customer: { email: "ada@example.com" }, discounts: [{ code: "SPRING 10" }] },
+      "checkmo"
+    );
+
+    expect(orderId).toBe(43);
+    expect(sent(requests, "PUT", "carts/7/coupons/SPRING 10")).toHaveLength(1);
+    expect(sent(requests, "PUT", "carts/7/order")[0].body).toEqual({ paymentMethod: { method: "checkmo" } });
+  });
+
+  it("adds a configurable child through its parent with the child's super attribute values", async () => {
+    requests = stubMagento({
+      ...routes,
+      "GET configurable-products/TEE/options/all": () => [{ attribute_id: 93 }],
+      "GET products/attributes/93": () => ({ attribute_code: "color" }),
+      "GET products/TEE-RED": () => ({ sku: "TEE-RED", custom_attributes: [{ attribute_code: "color", value: "49" }] }),
+    });
+
+    await placeCartOrder(client, { ...guestOrder, lineItems: [{ sku: "TEE-RED", parentSku: "TEE", quantity: 1 }] }, "checkmo");
+
+    expect(sent(requests, "POST", "guest-carts/abc/items")[0].body).toEqual({
+      cartItem: {
+        sku: "TEE",
+        qty: 1,
+        quote_id: "abc",
+        product_option: { extension_attributes: { configurable_item_options: [{ option_id: "93", option_value: 49 }] } },
+      },
+    });
+  });
+
+  it("sets only the billing address on a virtual cart", async () => {
+    requests = stubMagento({
+      ...routes,
+      "GET guest-carts/abc": () => ({ id: 5, is_virtual: true }),
+      "POST guest-carts/abc/billing-address": () => 1,
+    });
+
+    await placeCartOrder(client, guestOrder, "checkmo");
+
+    expect(sent(requests, "POST", "guest-carts/abc/billing-address")).toHaveLength(1);
+    expect(sent(requests, "POST", "guest-carts/abc/estimate-shipping-methods")).toEqual([]);
+  });
+
+  it("fails when the requested shipping method is not available", async () => {
+    requests = stubMagento(routes);
+
+    await expect(placeCartOrder(client, { ...guestOrder, shippingCode: "freeshipping" }, "checkmo")).rejects.toThrow(
+      "No available shipping method matches freeshipping/any method (available: flatrate_flatrate, tablerate_bestway)"
+    );
+    expect(sent(requests, "POST", "guest-carts/abc/payment-information")).toEqual([]);
+  });
+
+  it("rejects more than one coupon code before creating a cart", async () => {
+    requests = stubMagento(routes);
+
+    await expect(
+      placeCartOrder(client, { ...guestOrder, discounts: [{ code: "A" }, { couponCode: "B" }] }, "checkmo")
+    ).rejects.toThrow(/one coupon code per cart, got 2: A, B/);
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { M2CreditMemo, M2Order } from "../src/types/magento.js";
+import { IdempotencyStore } from "../src/idempotency-store.js";
+import { registerCreateReturn } from "../src/tools/create-return.js";
+import { callTool, captureTool, sent, status, stubMagento, testClient, type Routes } from "./_harness.js";
+
+const HOOK_URL = "https://hooks.example.com/credit";
+
+const original = {
+  entity_id: 1,
+  increment_id: "000000001",
+  state: "complete",
+  status: "complete",
+  grand_total: 30,
+  customer_email: "ada@example.com",
+  shipping_method: "flatrate_flatrate",
+  items: [{ item_id: 11, sku: "MUG", qty_ordered: 3, qty_invoiced: 3, price: 10, row_total: 30 }],
+} as M2Order;
+
+const creditMemo: M2CreditMemo = {
+  entity_id: 9,
+  increment_id: "CM9",
+  order_id: 1,
+  state: 2,
+  grand_total: 10,
+  subtotal: 10,
+  created_at: "2026-03-01 10:00:00",
+  updated_at: "2026-03-01 10:00:00",
+};
+
+const storeCreditReturn = {
+  orderId: "1",
+  outcome: "store_credit",
+  returnLineItems: [{ orderLineItemId: "11", sku: "MUG", quantityReturned: 1, returnReason: "damaged" }],
+};
+
+describe("create-return", () => {
+  let dir: string;
+  let store: IdempotencyStore;
+  let routes: Routes;
+  let createReturn: ReturnType<typeof captureTool>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "onx-create-return-"));
+    store = new IdempotencyStore(join(dir, "store.json"), 60 * 60 * 1000);
+    const client = testClient();
+    createReturn = captureTool((server) =>
+      registerCreateReturn(server, client, "m2", store, {
+        offlinePaymentMethod: "checkmo",
+        oversellPolicy: "reject",
+        storeCreditWebhookUrl: HOOK_URL,
+        timeout: 1000,
+      })
+    );
+
+    // No RMA endpoint (Open Source): returns go through credit memos
+    const issued: M2CreditMemo[] = [];
+    routes = {
+      "GET orders/1": () => original,
+      "GET creditmemos": () => ({ items: issued, total_count: issued.length }),
+      "POST order/1/refund": (request) => {
+        const comment = (request.body as { comment: { comment: string } }).comment.comment;
+        issued.push({ ...creditMemo, comments: [{ comment }] });
+        return creditMemo.entity_id;
+      },
+      "GET creditmemos/9": () => creditMemo,
+      "POST creditmemo/9/comments": () => ({}),
+      [`POST ${HOOK_URL}`]: () => ({}),
+    };
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("fails when the store credit hook fails, and a retry reuses the credit memo", async () => {
+    const requests = stubMagento({ ...routes, [`POST ${HOOK_URL}`]: () => status(503) });
+    const failed = await callTool(createReturn, { return: storeCreditReturn, idempotencyKey: "ret-1" });
+
+    expect(failed.isError).toBe(true);
+    expect(failed.error).toMatch(/credit memo CM9 was created, but store credit was not issued.*retry with the same idempotencyKey/);
+
+    routes[`POST ${HOOK_URL}`] = () => ({});
+    const retryRequests = stubMagento(routes);
+    const retried = await callTool(createReturn, { return: storeCreditReturn, idempotencyKey: "ret-1" });
+
+    expect(retried.success).toBe(true);
+    expect(retried.return).toMatchObject({ id: "9", refundMethod: "store_credit", refundAmount: 10 });
+    expect(sent(requests, "POST", "order/1/refund")).toHaveLength(1);
+    expect(sent(retryRequests, "POST", "order/1/refund")).toHaveLength(0);
+    expect(sent(retryRequests, "POST", HOOK_URL)[0].body).toMatchObject({ creditMemoId: "9", amount: 10 });
+  });
+
+  describe("exchanges", () => {
+    const exchangeOrder = { entity_id: 2, increment_id: "000000002", state: "new", status: "pending", grand_total: 6 } as M2Order;
+    const exchangeReturn = (exchangeLine: Record<string, unknown>) => ({
+      return: {
+        ...storeCreditReturn,
+        outcome: "exchange",
+        refundMethod: "offline",
+        exchangeLineItems: [{ sku: "TEE", quantity: 1, ...exchangeLine }],
+      },
+    });
+
+    beforeEach(() => {
+      Object.assign(routes, {
+        "GET products": () => ({ items: [{ sku: "TEE", price: 25 }], total_count: 1 }),
+        "GET stockItems/TEE": () => ({ item_id: 7, qty: 50, is_in_stock: true }),
+        "PUT products/TEE/stockItems/7": () => 7,
+        "POST orders": () => exchangeOrder,
+        "GET orders/2": () => exchangeOrder,
+        "POST orders/1/comments": () => true,
+        "POST orders/2/comments": () => true,
+        "POST order/2/invoice": () => 5,
+      });
+    });
+
+    it("withholds the exchange value from the refund and invoices the exchange order", async () => {
+      const requests = stubMagento(routes);
+      const result = await callTool(createReturn, exchangeReturn({ unitPrice: 6 }));
+
+      expect(result.success).toBe(true);
+      expect(sent(requests, "POST", "order/1/refund")[0].body).toMatchObject({ arguments: { adjustment_negative: 6 } });
+      expect(sent(requests, "POST", "orders")[0].body).toMatchObject({
+        entity: { grand_total: 6, items: [{ sku: "TEE", price: 6 }], status_histories: [{ comment: expect.stringMatching(/^Exchange for order #000000001/) }] },
+      });
+      expect(sent(requests, "POST", "order/2/invoice")[0].body).toMatchObject({ capture: false });
+      expect(result.return.customFields).toContainEqual({ name: "m2:exchange_credit", value: "6" });
+      expect(result.return.exchangeLineItems).toEqual([{ sku: "TEE", quantity: 1, unitPrice: 6, exchangeOrderId: "2", exchangeOrderName: "000000002" }]);
+    });
+
+    it("prices a line without unitPrice from the catalog and reports what the return does not cover", async () => {
+      const requests = stubMagento(routes);
+      const result = await callTool(createReturn, exchangeReturn({}));
+
+      // The exchange takes the whole refund: the credit memo moves no money
+      expect(sent(requests, "POST", "order/1/refund")[0].body).toMatchObject({ arguments: { adjustment_negative: 0 } });
+      expect(result.return.refundAmount).toBe(0);
+      expect(sent(requests, "POST", "orders")[0].body).toMatchObject({ entity: { items: [{ sku: "TEE", price: 25 }] } });
+      expect(sent(requests, "POST", "order/2/invoice")).toEqual([]);
+      expect(result.warnings).toContain("Exchange order 000000002 has 15 due after the 10 paid by the return; no invoice was created");
+    });
+
+    it("rejects an exchange line that has no price before writing anything", async () => {
+      routes["GET products"] = () => ({ items: [], total_count: 0 });
+      const requests = stubMagento(routes);
+      const result = await callTool(createReturn, exchangeReturn({ sku: "GONE" }));
+
+      expect(result.error).toMatch(/exchange line GONE has no unitPrice and is not in the catalog/);
+      expect(requests.filter((r) => r.method !== "GET")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { M2Order, M2Shipment } from "../src/types/magento.js";
+import { IdempotencyStore } from "../src/idempotency-store.js";
+import { registerFulfillOrder } from "../src/tools/fulfill-order.js";
+import { callTool, captureTool, sent, status, stubMagento, testClient, type RecordedRequest, type Routes } from "./_harness.js";
+
+const order = {
+  entity_id: 1,
+  increment_id: "000000001",
+  state: "processing",
+  status: "processing",
+  items: [
+    { item_id: 1, sku: "MUG", qty_ordered: 3, price: 10 },
+    { item_id: 2, sku: "LAMP", qty_ordered: 1, price: 30 },
+  ],
+} as M2Order;
+
+interface ShipPayload {
+  items: Array<{ order_item_id: number; qty: number }>;
+  comment?: { comment: string };
+  arguments?: { extension_attributes: { source_code: string } };
+}
+
+describe("fulfill-order", () => {
+  let dir: string;
+  let fulfill: ReturnType<typeof captureTool>;
+  let routes: Routes;
+  let shipments: M2Shipment[];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "onx-fulfill-order-"));
+    const client = testClient();
+    const store = new IdempotencyStore(join(dir, "store.json"), 60 * 60 * 1000);
+    fulfill = captureTool((server) => registerFulfillOrder(server, client, "m2", store, { sourceSelectionAlgorithm: "priority" }));
+
+    shipments = [];
+    routes = {
+      "GET inventory/sources": () => ({ items: [{ source_code: "east" }], total_count: 1 }),
+      "GET store/websites": () => [{ id: 1, code: "base" }],
+      "GET inventory/stock-resolver/website/base": () => ({ stock_id: 2 }),
+      "GET orders/1": () => order,
+      "POST inventory/source-selection-algorithm-result": () => ({
+        shippable: true,
+        source_selection_items: [
+          { source_code: "east", sku: "MUG", qty_to_deduct: 2, qty_available: 2 },
+          { source_code: "west", sku: "MUG", qty_to_deduct: 1, qty_available: 5 },
+          { source_code: "west", sku: "LAMP", qty_to_deduct: 1, qty_available: 5 },
+        ],
+      }),
+      "POST order/1/ship": (request) => {
+        const payload = request.body as ShipPayload;
+        const shipment: M2Shipment = {
+          entity_id: 100 + shipments.length,
+          order_id: 1,
+          created_at: "2026-03-01 10:00:00",
+          updated_at: "2026-03-01 10:00:00",
+          items: payload.items.map((i) => ({ sku: i.order_item_id === 1 ? "MUG" : "LAMP", qty: i.qty, order_item_id: i.order_item_id })),
+          comments: payload.comment ? [{ comment: payload.comment.comment }] : [],
+          extension_attributes: payload.arguments?.extension_attributes,
+        };
+        shipments.push(shipment);
+        return shipment.entity_id;
+      },
+      "GET shipments": () => ({ items: shipments, total_count: shipments.length }),
+      "GET shipments/100": () => shipments[0],
+      "GET shipments/101": () => shipments[1],
+    };
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const shipped = (requests: RecordedRequest[]) =>
+    sent(requests, "POST", "order/1/ship").map((r) => {
+      const payload = r.body as ShipPayload;
+      return { source: payload.arguments?.extension_attributes.source_code, items: payload.items };
+    });
+
+  it("splits the request into one shipment per selected source", async () => {
+    const requests = stubMagento(routes);
+    const result = await callTool(fulfill, { orderId: "1", lineItems: [], trackingNumbers: ["1Z999"] });
+
+    expect(result.success).toBe(true);
+    expect(sent(requests, "POST", "inventory/source-selection-algorithm-result")[0].body).toMatchObject({
+      inventoryRequest: { stockId: 2, items: [{ sku: "MUG", qty: 3 }, { sku: "LAMP", qty: 1 }] },
+      algorithmCode: "priority",
+    });
+    expect(shipped(requests)).toEqual([
+      { source: "east", items: [{ order_item_id: 1, qty: 2 }] },
+      { source: "west", items: [{ order_item_id: 1, qty: 1 }, { order_item_id: 2, qty: 1 }] },
+    ]);
+    expect(result.fulfillments.map((f: { id: string; locationId: string }) => [f.id, f.locationId])).toEqual([
+      ["100", "east"],
+      ["101", "west"],
+    ]);
+  });
+
+  it("ships from the given locationId without asking source selection", async () => {
+    const requests = stubMagento(routes);
+    await callTool(fulfill, { orderId: "1", lineItems: [{ sku: "LAMP", quantity: 1 }], trackingNumbers: [], locationId: "west" });
+
+    expect(sent(requests, "POST", "inventory/source-selection-algorithm-result")).toEqual([]);
+    expect(shipped(requests)).toEqual([{ source: "west", items: [{ order_item_id: 2, qty: 1 }] }]);
+  });
+
+  it("ships the request as-is on a store without MSI", async () => {
+    delete routes["GET inventory/sources"];
+    const requests = stubMagento(routes);
+    await callTool(fulfill, { orderId: "1", lineItems: [{ sku: "MUG", quantity: 3 }], trackingNumbers: [] });
+
+    expect(sent(requests, "POST", "inventory/source-selection-algorithm-result")).toEqual([]);
+    expect(shipped(requests)).toEqual([{ source: undefined, items: [{ order_item_id: 1, qty: 3 }] }]);
+  });
+
+  it("fails without shipping when no combination of sources covers the request", async () => {
+    routes["POST inventory/source-selection-algorithm-result"] = () => ({ shippable: false, source_selection_items: [] });
+    const requests = stubMagento(routes);
+    const result = await callTool(fulfill, { orderId: "1", lineItems: [], trackingNumbers: [] });
+
+    expect(result.error).toMatch(/no combination of sources can ship the requested quantities \(priority source selection\)/);
+    expect(shipped(requests)).toEqual([]);
+  });
+
+  it("creates only the missing shipments of a split on retry", async () => {
+    const ship = routes["POST order/1/ship"];
+    routes["POST order/1/ship"] = (request) => (shipments.length === 0 ? ship(request) : status(400, { message: "source is locked" }));
+    const firstRequests = stubMagento(routes);
+    const params = { orderId: "1", lineItems: [], trackingNumbers: [], idempotencyKey: "ship-1" };
+
+    const failed = await callTool(fulfill, params);
+    expect(failed.isError).toBe(true);
+    expect(shipped(firstRequests).map((s) => s.source)).toEqual(["east", "west"]);
+
+    routes["POST order/1/ship"] = ship;
+    const retryRequests = stubMagento(routes);
+    const retried = await callTool(fulfill, params);
+
+    expect(retried.success).toBe(true);
+    expect(sent(retryRequests, "POST", "inventory/source-selection-algorithm-result")).toEqual([]);
+    expect(shipped(retryRequests).map((s) => s.source)).toEqual(["west"]);
+    expect(retried.fulfillments.map((f: { id: string }) => f.id)).toEqual(["100", "101"]);
+    expect(shipments[0].comments?.[0].comment).toBe("[onX idempotency key: ship-1] [onX source: east]");
+  });
+});
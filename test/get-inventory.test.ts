@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { M2Product, M2SourceItem } from "../src/types/magento.js";
+import { registerGetInventory } from "../src/tools/get-inventory.js";
+import { callTool, captureTool, status, stubMagento, testClient, type RecordedRequest, type Routes } from "./_harness.js";
+
+/** Serve `items` a page at a time, as M2 does for searchCriteria[currentPage] and [pageSize] */
+function paged<T>(items: T[]) {
+  return (request: RecordedRequest) => {
+    const pageSize = Number(request.query.get("searchCriteria[pageSize]"));
+    const currentPage = Number(request.query.get("searchCriteria[currentPage]"));
+    return { items: items.slice((currentPage - 1) * pageSize, currentPage * pageSize), total_count: items.length };
+  };
+}
+
+describe("get-inventory", () => {
+  let getInventory: ReturnType<typeof captureTool>;
+  let routes: Routes;
+
+  const register = (env: Record<string, string> = {}) => {
+    const client = testClient(env);
+    getInventory = captureTool((server) => registerGetInventory(server, client, "m2"));
+  };
+
+  beforeEach(() => {
+    register();
+    const sourceItems: M2SourceItem[] = [
+      { sku: "MUG", source_code: "east", quantity: 10, status: 1 },
+      { sku: "MUG", source_code: "west", quantity: 5, status: 0 },
+      { sku: "MUG", source_code: "outlet", quantity: 4, status: 1 },
+    ];
+    routes = {
+      "GET inventory/sources": () => ({ items: [{ source_code: "east" }], total_count: 1 }),
+      "GET store/websites": () => [{ id: 1, code: "base" }],
+      "GET inventory/stock-resolver/website/base": () => ({ stock_id: 2 }),
+      "GET inventory/source-items": paged(sourceItems),
+      "GET inventory/stock-source-links": () => ({
+        items: [{ stock_id: 2, source_code: "east" }, { stock_id: 2, source_code: "west" }],
+        total_count: 2,
+      }),
+      "GET inventory/get-product-salable-quantity/MUG/2": () => 8,
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("returns a row per source and one for the stock, and lists SKUs without inventory", async () => {
+    stubMagento(routes);
+    const result = await callTool(getInventory, { skus: ["MUG", "GONE"], fetchAll: true });
+
+    expect(result.inventory).toEqual([
+      { sku: "MUG", locationId: "east", available: 10, onHand: 10, unavailable: 0, tenantId: "m2" },
+      { sku: "MUG", locationId: "outlet", available: 4, onHand: 4, unavailable: 0, tenantId: "m2" },
+      // The outlet source is not linked to the stock, so only east and west count
+      { sku: "MUG", locationId: "stock:2", available: 8, onHand: 15, unavailable: 7, tenantId: "m2" },
+      { sku: "MUG", locationId: "west", available: 0, onHand: 5, unavailable: 5, tenantId: "m2" },
+    ]);
+    expect(result.notFound).toEqual(["GONE"]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("filters rows by locationIds", async () => {
+    stubMagento(routes);
+    const result = await callTool(getInventory, { skus: ["MUG"], locationIds: ["stock:2", "west"] });
+
+    expect(result.inventory.map((row: { locationId: string }) => row.locationId)).toEqual(["stock:2", "west"]);
+  });
+
+  it("reports a SKU whose salable quantity cannot be read instead of dropping it", async () => {
+    routes["GET inventory/get-product-salable-quantity/MUG/2"] = () => status(400, { message: "stock is not assigned" });
+    stubMagento(routes);
+    const result = await callTool(getInventory, { skus: ["MUG"], locationIds: ["stock:2"] });
+
+    expect(result.inventory).toEqual([]);
+    expect(result.errors).toEqual([{ sku: "MUG", locationId: "stock:2", error: expect.stringContaining("stock is not assigned") }]);
+  });
+
+  it("reads every source item even past the fetch-all limit, and pages the rows", async () => {
+    register({ ONX_FETCH_ALL_LIMIT: "50" });
+    const sourceItems = Array.from({ length: 150 }, (_, i): M2SourceItem => ({
+      sku: "MUG",
+      source_code: `src-${String(i).padStart(3, "0")}`,
+      quantity: 1,
+      status: 1,
+    }));
+    routes["GET inventory/source-items"] = paged(sourceItems);
+    routes["GET inventory/stock-source-links"] = () => ({
+      items: sourceItems.map((item) => ({ stock_id: 2, source_code: item.source_code })),
+      total_count: sourceItems.length,
+    });
+    routes["GET inventory/get-product-salable-quantity/MUG/2"] = () => 150;
+    stubMagento(routes);
+
+    const result = await callTool(getInventory, { skus: ["MUG"], locationIds: ["stock:2"] });
+    expect(result.inventory).toEqual([{ sku: "MUG", locationId: "stock:2", available: 150, onHand: 150, unavailable: 0, tenantId: "m2" }]);
+
+    const firstPage = await callTool(getInventory, { skus: ["MUG"], fetchAll: true });
+    expect(firstPage.inventory).toHaveLength(50);
+    expect(firstPage.pagination).toMatchObject({ totalCount: 151, hasMore: true });
+  });
+
+  it("reads legacy stock from the products search without MSI", async () => {
+    const products = [
+      ...Array.from({ length: 120 }, (_, i): M2Product => ({
+        sku: `SKU-${i}`,
+        type_id: "simple",
+        extension_attributes: { stock_item: { qty: i, is_in_stock: true } },
+      }) as M2Product),
+      { sku: "BUNDLE", type_id: "bundle" } as M2Product,
+      { sku: "SOLD-OUT", type_id: "simple", extension_attributes: { stock_item: { qty: 3, is_in_stock: false } } } as M2Product,
+    ];
+    stubMagento({ "GET products": paged(products) });
+
+    const skus = [...products.map((p) => p.sku), "GONE"];
+    const result = await callTool(getInventory, { skus, fetchAll: true });
+
+    expect(result.pagination.totalCount).toBe(121);
+    expect(result.inventory).toContainEqual({ sku: "SKU-119", locationId: "default", available: 119, onHand: 119, unavailable: 0, tenantId: "m2" });
+    expect(result.inventory).toContainEqual({ sku: "SOLD-OUT", locationId: "default", available: 0, onHand: 3, unavailable: 3, tenantId: "m2" });
+    expect(result.errors).toEqual([{ sku: "BUNDLE", locationId: "default", error: "No stock item for bundle product" }]);
+    expect(result.notFound).toEqual(["GONE"]);
+  });
+});
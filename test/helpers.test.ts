@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { buildPagination, buildSearchCriteria, paginateLocally, resolvePage } from "../src/tools/_helpers.js";
+
+describe("resolvePage", () => {
+  it("defaults to the first ten records", () => {
+    expect(resolvePage({})).toEqual({ skip: 0, pageSize: 10, fetchAll: undefined });
+  });
+
+  it("takes the offset from a cursor over skip", () => {
+    const criteria = buildSearchCriteria({});
+    const { nextCursor } = buildPagination({ skip: 0, pageSize: 7 }, criteria, { items: new Array(7), totalCount: 20 });
+    expect(resolvePage({ cursor: nextCursor, skip: 3, pageSize: 7 }).skip).toBe(7);
+  });
+
+  it("rejects a cursor it did not issue", () => {
+    expect(() => resolvePage({ cursor: "not-a-cursor" })).toThrow(/Invalid pagination cursor/);
+  });
+});
+
+describe("buildPagination", () => {
+  const criteria = { sortOrders: [{ field: "sku", direction: "ASC" as const }] };
+
+  it("issues a cursor for the record after the page while more remain", () => {
+    const pagination = buildPagination({ skip: 5, pageSize: 5 }, criteria, { items: new Array(5), totalCount: 12 });
+    expect(pagination).toMatchObject({ totalCount: 12, skip: 5, pageSize: 5, hasMore: true });
+
+    const next = resolvePage({ cursor: pagination.nextCursor });
+    expect(next.skip).toBe(10);
+    expect(buildSearchCriteria({ cursor: pagination.nextCursor }).sortOrders).toEqual(criteria.sortOrders);
+  });
+
+  it("stops at the last page", () => {
+    const pagination = buildPagination({ skip: 10, pageSize: 5 }, criteria, { items: new Array(2), totalCount: 12 });
+    expect(pagination.hasMore).toBe(false);
+    expect(pagination.nextCursor).toBeUndefined();
+  });
+
+  it("reports no more records for an empty page", () => {
+    const pagination = buildPagination({ skip: 20, pageSize: 5 }, criteria, { items: [], totalCount: 12 });
+    expect(pagination.hasMore).toBe(false);
+  });
+});
+
+describe("paginateLocally", () => {
+  const rows = Array.from({ length: 8 }, (_, i) => i);
+
+  it("slices the page window and keeps the full count", () => {
+    expect(paginateLocally(rows, { skip: 3, pageSize: 2 }, 100)).toEqual({ items: [3, 4], totalCount: 8 });
+  });
+
+  it("returns everything from skip up to the fetch-all limit", () => {
+    expect(paginateLocally(rows, { skip: 2, pageSize: 2, fetchAll: true }, 4)).toEqual({ items: [2, 3, 4, 5], totalCount: 8 });
+  });
+});
+
+describe("buildSearchCriteria", () => {
+  it("puts each date bound and extra filter in its own filter group", () => {
+    const criteria = buildSearchCriteria({
+      createdAtMin: "2026-01-01",
+      updatedAtMax: "2026-02-01",
+      extraFilters: [{ field: "status", value: "pending", conditionType: "eq" }],
+    });
+    expect(criteria.filterGroups).toEqual([
+      { filters: [{ field: "created_at", value: "2026-01-01", conditionType: "gteq" }] },
+      { filters: [{ field: "updated_at", value: "2026-02-01", conditionType: "lteq" }] },
+      { filters: [{ field: "status", value: "pending", conditionType: "eq" }] },
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { loadConfig } from "../src/config.js";
+import type { MagentoClient } from "../src/client/magento-client.js";
+import { startHttpServer } from "../src/http-server.js";
+
+const API_KEY = "secret-key";
+const IDLE_MS = 50;
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("HTTP transport", () => {
+  let server: Server;
+  let baseUrl: string;
+  let mcpServers: McpServer[];
+
+  beforeEach(async () => {
+    vi.stubEnv("M2_BASE_URL", "https://shop.example.com");
+    vi.stubEnv("M2_ACCESS_TOKEN", "token");
+    vi.stubEnv("ONX_HTTP_API_KEYS", API_KEY);
+    vi.stubEnv("ONX_HTTP_HOST", "127.0.0.1");
+    vi.stubEnv("ONX_HTTP_PORT", "0");
+    vi.stubEnv("ONX_HTTP_MAX_BODY_BYTES", "1024");
+    const config = { ...loadConfig(["--http"]), httpSessionIdleMs: IDLE_MS };
+
+    const client = { healthCheck: async () => ({ reachable: true, latencyMs: 1 }) } as unknown as MagentoClient;
+    mcpServers = [];
+    server = await startHttpServer(config, client, () => {
+      const mcp = new McpServer({ name: "test", version: "1.0.0" });
+      mcpServers.push(mcp);
+      return mcp;
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    vi.unstubAllEnvs();
+  });
+
+  const post = (path: string, body: string, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${API_KEY}`,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body,
+    });
+
+  it("answers /healthz without a key", async () => {
+    const ok = await fetch(`${baseUrl}/healthz`);
+    expect(ok.status).toBe(200);
+    expect(await ok.json()).toEqual({ status: "ok" });
+  });
+
+  it("rejects MCP requests without a valid key", async () => {
+    expect((await fetch(`${baseUrl}/mcp`, { method: "POST", body: "{}" })).status).toBe(401);
+    expect((await post("/mcp", "{}", { Authorization: "Bearer wrong-key" })).status).toBe(401);
+  });
+
+  it("accepts the key as a bearer token or in X-API-Key", async () => {
+    expect((await fetch(`${baseUrl}/nowhere`, { headers: { Authorization: `Bearer ${API_KEY}` } })).status).toBe(404);
+    expect((await fetch(`${baseUrl}/nowhere`, { headers: { "X-API-Key": API_KEY } })).status).toBe(404);
+  });
+
+  it("refuses oversized bodies with 413 and malformed JSON with 400", async () => {
+    const tooBig = await post("/mcp", JSON.stringify({ padding: "x".repeat(2048) }));
+    expect(tooBig.status).toBe(413);
+
+    const malformed = await post("/mcp", "{not json");
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toEqual({ error: "Request body is not valid JSON" });
+  });
+
+  it("closes an idle streamable session and its server", async () => {
+    const initialized = await post("/mcp", JSON.stringify(initialize));
+    expect(initialized.status).toBe(200);
+    await initialized.text();
+    const sessionId = initialized.headers.get("mcp-session-id");
+    expect(sessionId).toBeTruthy();
+
+    const closed = vi.spyOn(mcpServers[0], "close");
+    await wait(IDLE_MS * 4);
+
+    expect(closed).toHaveBeenCalled();
+    const stale = await post("/mcp", JSON.stringify({ jsonrpc: "2.0", id: 2, method: "ping" }), {
+      "mcp-session-id": sessionId || "",
+    });
+    expect(stale.status).toBe(400);
+  });
+
+  it("keeps an SSE session with an open stream and closes it when the client disconnects", async () => {
+    const disconnect = new AbortController();
+    const stream = await fetch(`${baseUrl}/sse`, {
+      headers: { Authorization: `Bearer ${API_KEY}` },
+      signal: disconnect.signal,
+    });
+    const reader = stream.body?.getReader();
+    if (!reader) throw new Error("no SSE stream");
+    const { value } = await reader.read();
+    const endpoint = new TextDecoder().decode(value).match(/data: (\S+)/)?.[1] ?? "";
+    expect(endpoint).toMatch(/^\/messages\?sessionId=/);
+
+    const closed = vi.spyOn(mcpServers[0], "close");
+    await wait(IDLE_MS * 4);
+    expect(closed).not.toHaveBeenCalled();
+    expect((await post(endpoint, JSON.stringify(initialize))).status).toBe(202);
+
+    disconnect.abort();
+    await reader.closed.catch(() => undefined);
+    await wait(20);
+    expect(closed).toHaveBeenCalled();
+    expect((await post(endpoint, JSON.stringify(initialize))).status).toBe(404);
+  });
+});
@@ -0,0 +1,155 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IdempotencyStore, type IdempotencyCheckpoint } from "../src/idempotency-store.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function result(text: string, isError?: boolean) {
+  return { content: [{ type: "text" as const, text }], isError };
+}
+
+describe("IdempotencyStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "onx-idempotency-"));
+    filePath = join(dir, "store.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("runs the action every time without a key", async () => {
+    const store = new IdempotencyStore(filePath, HOUR_MS);
+    let calls = 0;
+    await store.run("scope", undefined, {}, async () => result(String(++calls)));
+    await store.run("scope", undefined, {}, async () => result(String(++calls)));
+    expect(calls).toBe(2);
+  });
+
+  it("returns the recorded result for a repeated key, across store instances", async () => {
+    let calls = 0;
+    const action = async () => result(`created ${++calls}`);
+
+    const first = await new IdempotencyStore(filePath, HOUR_MS).run("scope", "key-1", { a: 1 }, action);
+    const replay = await new IdempotencyStore(filePath, HOUR_MS).run("scope", "key-1", { a: 1 }, action);
+
+    expect(calls).toBe(1);
+    expect(replay).toEqual(first);
+  });
+
+  it("runs concurrent calls with the same key once", async () => {
+    const store = new IdempotencyStore(filePath, HOUR_MS);
+    let calls = 0;
+    const action = async () => {
+      calls++;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return result("created");
+    };
+
+    const results = await Promise.all([
+      store.run("scope", "key-1", {}, action),
+      store.run("scope", "key-1", {}, action),
+      store.run("scope", "key-1", {}, action),
+    ]);
+
+    expect(calls).toBe(1);
+    expect(results.map((r) => r.content[0].text)).toEqual(["created", "created", "created"]);
+  });
+
+  it("keeps different keys and scopes apart", async () => {
+    const store = new IdempotencyStore(filePath, HOUR_MS);
+    let calls = 0;
+    const action = async () => result(String(++calls));
+
+    await Promise.all([
+      store.run("scope", "key-1", {}, action),
+      store.run("scope", "key-2", {}, action),
+      store.run("other", "key-1", {}, action),
+    ]);
+    expect(calls).toBe(3);
+  });
+
+  it("does not record failures, so the key can be retried", async () => {
+    const store = new IdempotencyStore(filePath, HOUR_MS);
+    await store.run("scope", "key-1", {}, async () => result("failed", true));
+    await expect(store.run("scope", "key-1", {}, async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+
+    const retried = await store.run("scope", "key-1", {}, async () => result("created"));
+    expect(retried.content[0].text).toBe("created");
+  });
+
+  it("lets a waiting call run when the first one throws", async () => {
+    const store = new IdempotencyStore(filePath, HOUR_MS);
+    const failing = store.run("scope", "key-1", {}, async () => { throw new Error("boom"); });
+    const retry = store.run("scope", "key-1", {}, async () => result("created"));
+
+    await expect(failing).rejects.toThrow("boom");
+    expect((await retry).content[0].text).toBe("created");
+  });
+
+  it("rejects a key reused with different parameters", async () => {
+    const store = new IdempotencyStore(filePath, HOUR_MS);
+    await store.run("scope", "key-1", { a: 1 }, async () => result("created"));
+    await expect(store.run("scope", "key-1", { a: 2 }, async () => result("created"))).rejects.toThrow(
+      /already used with different parameters/
+    );
+  });
+
+  it("forgets results once they expire", async () => {
+    const store = new IdempotencyStore(filePath, 0);
+    let calls = 0;
+    await store.run("scope", "key-1", {}, async () => result(String(++calls)));
+    await store.run("scope", "key-1", {}, async () => result(String(++calls)));
+    expect(calls).toBe(2);
+  });
+
+  it("hands a saved checkpoint to the next attempt", async () => {
+    await expect(
+      new IdempotencyStore(filePath, HOUR_MS).run("scope", "key-1", {}, async (checkpoint) => {
+        expect(checkpoint.saved).toBeUndefined();
+        await checkpoint.save({ quoteId: 42 });
+        throw new Error("crashed after the checkpoint");
+      })
+    ).rejects.toThrow();
+
+    const retried = await new IdempotencyStore(filePath, HOUR_MS).run("scope", "key-1", {}, async (checkpoint) =>
+      result(`quote ${checkpoint.saved?.quoteId}`)
+    );
+    expect(retried.content[0].text).toBe("quote 42");
+  });
+
+  it("resumes with the steps an earlier attempt did not finish", async () => {
+    const ran: string[] = [];
+    const action = (failAt?: string) => async (checkpoint: IdempotencyCheckpoint) => {
+      await checkpoint.save({ orderId: 7 });
+      const first = await checkpoint.step("reserve", async () => {
+        ran.push("reserve");
+        return "reserved";
+      });
+      await checkpoint.step("comment", async () => {
+        if (failAt === "comment") throw new Error("connection dropped");
+        ran.push("comment");
+      });
+      return result(`${first} ${checkpoint.saved?.orderId ?? "new"}`);
+    };
+
+    await expect(new IdempotencyStore(filePath, HOUR_MS).run("scope", "key-1", {}, action("comment"))).rejects.toThrow();
+    const retried = await new IdempotencyStore(filePath, HOUR_MS).run("scope", "key-1", {}, action());
+
+    expect(ran).toEqual(["reserve", "comment"]);
+    expect(retried.content[0].text).toBe("reserved 7");
+  });
+
+  it("runs every step without a key", async () => {
+    const store = new IdempotencyStore(filePath, HOUR_MS);
+    let calls = 0;
+    const action = async (checkpoint: IdempotencyCheckpoint) => result(String(await checkpoint.step("count", async () => ++calls)));
+    await store.run("scope", undefined, {}, action);
+    expect((await store.run("scope", undefined, {}, action)).content[0].text).toBe("2");
+  });
+});
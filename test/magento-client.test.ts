@@ -0,0 +1,260 @@
+import { createHmac } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadConfig } from "../src/config.js";
+import { MagentoApiError, MagentoCircuitOpenError, MagentoClient } from "../src/client/magento-client.js";
+
+interface CapturedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+}
+
+/** Serve `handler`'s JSON for every request and record what was sent. */
+function stubFetch(handler: (url: URL) => unknown = () => ({})): CapturedRequest[] {
+  const requests: CapturedRequest[] = [];
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    requests.push({ method: init.method || "GET", url, headers: init.headers as Record<string, string> });
+    return new Response(JSON.stringify(handler(new URL(url))), { status: 200 });
+  });
+  return requests;
+}
+
+function oauthClient(signatureMethod = "HMAC-SHA256"): MagentoClient {
+  vi.stubEnv("M2_BASE_URL", "https://shop.example.com/");
+  vi.stubEnv("M2_AUTH_METHOD", "oauth");
+  vi.stubEnv("M2_OAUTH_SIGNATURE_METHOD", signatureMethod);
+  vi.stubEnv("M2_OAUTH_CONSUMER_KEY", "consumer key");
+  vi.stubEnv("M2_OAUTH_CONSUMER_SECRET", "consumer&secret");
+  vi.stubEnv("M2_OAUTH_ACCESS_TOKEN", "token");
+  vi.stubEnv("M2_OAUTH_ACCESS_TOKEN_SECRET", "token secret");
+  return new MagentoClient(loadConfig([]));
+}
+
+function parseOAuthHeader(header: string): Record<string, string> {
+  expect(header.startsWith("OAuth ")).toBe(true);
+  return Object.fromEntries(
+    header.slice("OAuth ".length).split(", ").map((part) => {
+      const [key, value] = part.split("=");
+      return [decodeURIComponent(key), decodeURIComponent(value.slice(1, -1))];
+    })
+  );
+}
+
+/** RFC 5849 signature, computed independently of the client. */
+function expectedSignature(method: string, url: string, oauth: Record<string, string>, algorithm: "sha256" | "sha1") {
+  const encode = (value: string) =>
+    encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  const parsed = new URL(url);
+  const params = [
+    ...Object.entries(oauth).filter(([key]) => key !== "oauth_signature"),
+    ...parsed.searchParams.entries(),
+  ]
+    .map(([key, value]) => `${encode(key)}=${encode(value)}`)
+    .sort()
+    .join("&");
+  const base = [method, encode(`${parsed.origin}${parsed.pathname}`), encode(params)].join("&");
+  return createHmac(algorithm, `${encode("consumer&secret")}&${encode("token secret")}`).update(base).digest("base64");
+}
+
+describe("MagentoClient OAuth signing", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("signs the method, URL and search criteria with HMAC-SHA256", async () => {
+    const requests = stubFetch();
+    await oauthClient().get("orders", {
+      filterGroups: [{ filters: [{ field: "increment_id", value: "000000001", conditionType: "eq" }] }],
+      pageSize: 5,
+    });
+
+    const [request] = requests;
+    const oauth = parseOAuthHeader(request.headers.Authorization);
+    expect(oauth).toMatchObject({
+      oauth_consumer_key: "consumer key",
+      oauth_token: "token",
+      oauth_signature_method: "HMAC-SHA256",
+      oauth_version: "1.0",
+    });
+    expect(oauth.oauth_signature).toBe(expectedSignature("GET", request.url, oauth, "sha256"));
+  });
+
+  it("signs with HMAC-SHA1 when configured", async () => {
+    const requests = stubFetch();
+    await oauthClient("HMAC-SHA1").post("orders/1/comments", { statusHistory: { comment: "signed" } });
+
+    const [request] = requests;
+    const oauth = parseOAuthHeader(request.headers.Authorization);
+    expect(oauth.oauth_signature_method).toBe("HMAC-SHA1");
+    expect(oauth.oauth_signature).toBe(expectedSignature("POST", request.url, oauth, "sha1"));
+  });
+
+  it("uses a fresh nonce for every request", async () => {
+    const requests = stubFetch();
+    const client = oauthClient();
+    await client.get("store/storeConfigs");
+    await client.get("store/storeConfigs");
+
+    const [first, second] = requests.map((r) => parseOAuthHeader(r.headers.Authorization));
+    expect(first.oauth_nonce).not.toBe(second.oauth_nonce);
+  });
+});
+
+describe("MagentoClient.getPage", () => {
+  const records = Array.from({ length: 25 }, (_, i) => ({ id: i }));
+  let client: MagentoClient;
+
+  beforeEach(() => {
+    vi.stubEnv("M2_BASE_URL", "https://shop.example.com");
+    vi.stubEnv("M2_AUTH_METHOD", "token");
+    vi.stubEnv("M2_ACCESS_TOKEN", "token");
+    vi.stubEnv("ONX_FETCH_ALL_LIMIT", "12");
+    client = new MagentoClient(loadConfig([]));
+
+    // M2 pages by number and clamps out-of-range pages to the last one
+    stubFetch((url) => {
+      const pageSize = Number(url.searchParams.get("searchCriteria[pageSize]"));
+      const lastPage = Math.ceil(records.length / pageSize);
+      const currentPage = Math.min(Number(url.searchParams.get("searchCriteria[currentPage]")), lastPage);
+      const start = (currentPage - 1) * pageSize;
+      return { items: records.slice(start, start + pageSize), total_count: records.length };
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("returns a window that starts between M2 pages", async () => {
+    const page = await client.getPage<{ id: number }>("orders", {}, { skip: 7, pageSize: 5 });
+    expect(page.items.map((r) => r.id)).toEqual([7, 8, 9, 10, 11]);
+    expect(page.totalCount).toBe(25);
+  });
+
+  it("returns nothing past the end instead of M2's clamped last page", async () => {
+    const page = await client.getPage<{ id: number }>("orders", {}, { skip: 30, pageSize: 10 });
+    expect(page.items).toEqual([]);
+  });
+
+  it("stops fetchAll at the fetch-all limit", async () => {
+    const page = await client.getPage<{ id: number }>("orders", {}, { skip: 5, pageSize: 10, fetchAll: true });
+    expect(page.items.map((r) => r.id)).toEqual([5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16]);
+  });
+
+  it("walks every page in forEachPage, uncapped", async () => {
+    const seen: number[] = [];
+    const total = await client.forEachPage<{ id: number }>("orders", {}, (items) => {
+      seen.push(...items.map((r) => r.id));
+    });
+    expect(total).toBe(25);
+    expect(seen).toEqual(records.map((r) => r.id));
+  });
+});
+
+describe("MagentoClient retries and circuit breaker", () => {
+  let calls: string[];
+
+  /** Answer each request with the next response in line; the last one repeats */
+  function respondWith(...responses: Array<() => Response>) {
+    calls = [];
+    vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+      calls.push(`${init.method} ${new URL(url).pathname}`);
+      return responses[Math.min(calls.length, responses.length) - 1]();
+    });
+  }
+
+  const json = (status: number, body: unknown = {}, headers: Record<string, string> = {}) => () =>
+    new Response(JSON.stringify(body), { status, headers });
+
+  function client(env: Record<string, string> = {}): MagentoClient {
+    vi.stubEnv("M2_BASE_URL", "https://shop.example.com");
+    vi.stubEnv("M2_AUTH_METHOD", "token");
+    vi.stubEnv("M2_ACCESS_TOKEN", "token");
+    vi.stubEnv("M2_RETRY_BASE_DELAY", "1");
+    for (const [key, value] of Object.entries(env)) vi.stubEnv(key, value);
+    return new MagentoClient(loadConfig([]));
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("retries a GET after a 5xx until it succeeds", async () => {
+    respondWith(json(503), json(502), json(200, { ok: true }));
+    await expect(client().get("orders/1")).resolves.toEqual({ ok: true });
+    expect(calls).toHaveLength(3);
+  });
+
+  it("gives up after M2_MAX_RETRIES and reports the last status", async () => {
+    respondWith(json(500, { message: "down" }));
+    const error = await client({ M2_MAX_RETRIES: "2" }).get("orders/1").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MagentoApiError);
+    expect((error as MagentoApiError).statusCode).toBe(500);
+    expect(calls).toHaveLength(3);
+  });
+
+  it("does not retry a 4xx other than 429", async () => {
+    respondWith(json(400, { message: "bad" }));
+    await expect(client().get("orders/1")).rejects.toThrow(/returned 400/);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("waits for Retry-After before retrying", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    respondWith(json(429, {}, { "Retry-After": "2" }), json(200, { ok: true }));
+    const result = client().get("orders/1");
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(calls).toHaveLength(2);
+  });
+
+  it("fails at once when Retry-After is longer than M2_RETRY_MAX_DELAY", async () => {
+    respondWith(json(429, {}, { "Retry-After": "120" }));
+    await expect(client({ M2_RETRY_MAX_DELAY: "1000" }).get("orders/1")).rejects.toThrow(/returned 429/);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("sends a write once unless it opts into retries", async () => {
+    respondWith(json(503));
+    await expect(client().post("orders", {})).rejects.toThrow(/returned 503/);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("asks recover before retrying a write and returns what it found", async () => {
+    respondWith(json(503));
+    const recover = vi.fn(async () => ({ entity_id: 7 }));
+    await expect(client().post("orders", {}, { retry: true, recover })).resolves.toEqual({ entity_id: 7 });
+    expect(recover).toHaveBeenCalledTimes(1);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("opens the circuit after consecutive failures and lets a trial through after the cooldown", async () => {
+    const breaking = client({ M2_MAX_RETRIES: "0", M2_CIRCUIT_BREAKER_THRESHOLD: "2", M2_CIRCUIT_BREAKER_COOLDOWN: "20" });
+    respondWith(json(500), json(500), json(200, { ok: true }));
+
+    await expect(breaking.get("orders/1")).rejects.toThrow(/returned 500/);
+    await expect(breaking.get("orders/1")).rejects.toThrow(/returned 500/);
+    await expect(breaking.get("orders/1")).rejects.toBeInstanceOf(MagentoCircuitOpenError);
+    expect(calls).toHaveLength(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 25));
+    await expect(breaking.get("orders/1")).resolves.toEqual({ ok: true });
+    await expect(breaking.get("orders/1")).resolves.toEqual({ ok: true });
+    expect(calls).toHaveLength(4);
+  });
+
+  it("does not count 4xx answers against the circuit", async () => {
+    const breaking = client({ M2_MAX_RETRIES: "0", M2_CIRCUIT_BREAKER_THRESHOLD: "2" });
+    respondWith(json(500), json(404), json(500), json(200, { ok: true }));
+
+    for (let i = 0; i < 3; i++) await breaking.get("orders/1").catch(() => undefined);
+    await expect(breaking.get("orders/1")).resolves.toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { M2Order, M2OrderItem } from "../src/types/magento.js";
+import { qtyInvoicedOpen, qtyOpen, qtyToInvoice, qtyToShip, resolveOrderLines, topLevelItems } from "../src/tools/_orders.js";
+
+function item(fields: Partial<M2OrderItem> & Pick<M2OrderItem, "item_id" | "sku">): M2OrderItem {
+  return { qty_ordered: 1, price: 10, row_total: 10, ...fields };
+}
+
+function order(items: M2OrderItem[]): M2Order {
+  return { entity_id: 1, increment_id: "000000001", state: "processing", status: "processing", items } as M2Order;
+}
+
+// A simple line, and a configurable line whose quantities live on the parent row
+const simple = item({ item_id: 1, sku: "MUG", qty_ordered: 3 });
+const parent = item({ item_id: 2, sku: "TEE-M", product_type: "configurable", qty_ordered: 2 });
+const child = item({ item_id: 3, sku: "TEE-M", parent_item_id: 2, product_type: "simple", qty_ordered: 2 });
+const sample = order([simple, parent, child]);
+
+describe("resolveOrderLines", () => {
+  it("matches lines by id first, then by SKU", () => {
+    const lines = resolveOrderLines(sample, [{ id: "1", sku: "IGNORED", quantity: 1 }, { sku: "TEE-M", quantity: 1 }]);
+    expect(lines.map((l) => [l.item.item_id, l.quantity])).toEqual([[1, 1], [2, 1]]);
+  });
+
+  it("resolves a configurable child row to its parent", () => {
+    const [line] = resolveOrderLines(sample, [{ id: "3", sku: "TEE-M", quantity: 2 }]);
+    expect(line.item.item_id).toBe(2);
+    expect(line.sku).toBe("TEE-M");
+  });
+
+  it("merges lines that resolve to the same row", () => {
+    const lines = resolveOrderLines(sample, [{ sku: "MUG", quantity: 1 }, { id: "1", sku: "MUG", quantity: 2 }]);
+    expect(lines).toHaveLength(1);
+    expect(lines[0].quantity).toBe(3);
+  });
+
+  it("throws for a line that is not on the order", () => {
+    expect(() => resolveOrderLines(sample, [{ sku: "NOPE", quantity: 1 }])).toThrow(/SKU NOPE not found on order 000000001/);
+  });
+});
+
+describe("topLevelItems", () => {
+  it("leaves out configurable children", () => {
+    expect(topLevelItems(sample).map((i) => i.item_id)).toEqual([1, 2]);
+  });
+});
+
+describe("quantity helpers", () => {
+  const partlyDone = item({
+    item_id: 4,
+    sku: "LAMP",
+    qty_ordered: 10,
+    qty_invoiced: 6,
+    qty_shipped: 2,
+    qty_refunded: 1,
+    qty_canceled: 1,
+  });
+
+  it("qtyOpen excludes shipped or refunded (whichever is more) and cancelled quantities", () => {
+    expect(qtyOpen(partlyDone)).toBe(7);
+    expect(qtyOpen(item({ item_id: 5, sku: "X", qty_ordered: 2, qty_refunded: 3 }))).toBe(0);
+  });
+
+  it("qtyInvoicedOpen is the open quantity already invoiced", () => {
+    expect(qtyInvoicedOpen(partlyDone)).toBe(4);
+    expect(qtyInvoicedOpen(item({ item_id: 6, sku: "X", qty_ordered: 2, qty_invoiced: 5 }))).toBe(2);
+  });
+
+  it("qtyToInvoice excludes invoiced and cancelled quantities", () => {
+    expect(qtyToInvoice(partlyDone)).toBe(3);
+  });
+
+  it("qtyToShip is zero for virtual items", () => {
+    expect(qtyToShip(partlyDone)).toBe(7);
+    expect(qtyToShip(item({ item_id: 7, sku: "GIFTCARD", qty_ordered: 1, is_virtual: 1 }))).toBe(0);
+  });
+});
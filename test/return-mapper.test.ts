@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { M2CreditMemo, M2Rma } from "../src/types/magento.js";
+import {
+  creditMemoStatesFor,
+  m2RmaStatusesFor,
+  mapM2CreditMemoToOnxReturn,
+  mapM2RmaToOnxReturn,
+} from "../src/mappers/return-mapper.js";
+
+function rma(fields: Partial<M2Rma> = {}): M2Rma {
+  return { entity_id: 5, increment_id: "R0005", order_id: 1, ...fields };
+}
+
+function creditMemo(fields: Partial<M2CreditMemo> = {}): M2CreditMemo {
+  return { entity_id: 9, order_id: 1, created_at: "2026-03-01 10:00:00", updated_at: "2026-03-01 10:00:00", ...fields };
+}
+
+describe("mapM2RmaToOnxReturn", () => {
+  it.each([
+    ["pending", "requested"],
+    ["authorized", "authorized"],
+    ["partially_authorized", "authorized"],
+    ["received", "received"],
+    ["received_on_item", "received"],
+    ["approved_on_item", "received"],
+    ["rejected_on_item", "received"],
+    ["processed_closed", "completed"],
+    ["closed", "declined"],
+  ])("maps RMA status %s to %s", (status, expected) => {
+    expect(mapM2RmaToOnxReturn(rma({ status }), "m2").status).toBe(expected);
+  });
+
+  it("treats an RMA without a status as requested", () => {
+    expect(mapM2RmaToOnxReturn(rma(), "m2").status).toBe("requested");
+  });
+
+  it("takes refund fields from the RMA's credit memos, ignoring canceled ones", () => {
+    const mapped = mapM2RmaToOnxReturn(rma({ status: "processed_closed" }), "m2", undefined, [
+      creditMemo({ grand_total: 20, state: 2, transaction_id: "txn-1" }),
+      creditMemo({ entity_id: 10, grand_total: 5, state: 1 }),
+      creditMemo({ entity_id: 11, grand_total: 99, state: 3 }),
+    ]);
+    expect(mapped).toMatchObject({ refundAmount: 25, refundStatus: "pending", refundMethod: "original_payment" });
+  });
+
+  it("reads receivedAt and the decline reason from status comments, without markers in the internal note", () => {
+    const mapped = mapM2RmaToOnxReturn(rma({
+      status: "closed",
+      comments: [
+        { comment: "Return via onX [onX idempotency key: k1]", status: "pending", created_at: "2026-03-01 09:00:00" },
+        { comment: "Box arrived", status: "received", created_at: "2026-03-02 09:00:00" },
+        { comment: "Outside the return window", status: "closed", created_at: "2026-03-03 09:00:00" },
+      ],
+    }), "m2");
+    expect(mapped).toMatchObject({
+      receivedAt: "2026-03-02 09:00:00",
+      completedAt: "2026-03-03 09:00:00",
+      declineReason: "Outside the return window",
+      internalNote: "Return via onX; Box arrived; Outside the return window",
+    });
+  });
+});
+
+describe("mapM2CreditMemoToOnxReturn", () => {
+  it.each([
+    [1, "pending"],
+    [2, "refunded"],
+    [3, "canceled"],
+    [undefined, "refunded"],
+  ])("maps credit memo state %s to %s", (state, expected) => {
+    const mapped = mapM2CreditMemoToOnxReturn(creditMemo({ state }), "m2");
+    expect(mapped.status).toBe(expected);
+    expect(mapped.refundStatus).toBe(expected);
+  });
+
+  it("reads outcome and refund method from markers and keeps them out of the notes", () => {
+    const mapped = mapM2CreditMemoToOnxReturn(creditMemo({
+      comments: [
+        { comment: "Return via onX [onX outcome: exchange] [onX refund method: store_credit] [onX idempotency key: k1]" },
+        { comment: "Thanks for your return", is_visible_on_front: 1 },
+      ],
+    }), "m2");
+    expect(mapped).toMatchObject({
+      outcome: "exchange",
+      refundMethod: "store_credit",
+      customerNote: "Thanks for your return",
+      internalNote: "Return via onX",
+    });
+  });
+
+  it("falls back to a refund through the transaction ID without markers", () => {
+    const mapped = mapM2CreditMemoToOnxReturn(creditMemo({ transaction_id: "txn-2" }), "m2");
+    expect(mapped).toMatchObject({ outcome: "refund", refundMethod: "original_payment" });
+  });
+});
+
+describe("status filters", () => {
+  it("expands onX return statuses to M2 RMA statuses, accepting M2 codes as-is", () => {
+    expect(m2RmaStatusesFor(["received"])).toEqual(["received", "received_on_item", "approved_on_item", "rejected_on_item"]);
+    expect(m2RmaStatusesFor(["closed"])).toEqual(["closed"]);
+  });
+
+  it("maps onX return statuses to credit memo states", () => {
+    expect(creditMemoStatesFor(["open", "cancelled"])).toEqual([1, 3]);
+    expect(creditMemoStatesFor(["refunded", "requested"])).toEqual([2]);
+  });
+});
@@ -0,0 +1,112 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { M2SourceItem } from "../src/types/magento.js";
+import { IdempotencyStore } from "../src/idempotency-store.js";
+import { registerUpdateInventory } from "../src/tools/update-inventory.js";
+import { callTool, captureTool, sent, status, stubMagento, testClient, type Routes } from "./_harness.js";
+
+describe("update-inventory", () => {
+  let update: ReturnType<typeof captureTool>;
+  let routes: Routes;
+
+  beforeEach(() => {
+    const client = testClient();
+    const store = new IdempotencyStore(join(tmpdir(), "onx-update-inventory-unused.json"), 0);
+    update = captureTool((server) => registerUpdateInventory(server, client, "m2", store));
+    routes = {
+      "GET inventory/sources": () => ({ items: [{ source_code: "east" }], total_count: 1 }),
+      "GET store/websites": () => [{ id: 1, code: "base" }],
+      "GET inventory/stock-resolver/website/base": () => ({ stock_id: 2 }),
+      "GET inventory/source-items": () => ({
+        items: [{ sku: "MUG", source_code: "east", quantity: 10, status: 1 }],
+        total_count: 1,
+      }),
+      "POST inventory/source-items": () => true,
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("applies deltas in order and saves every changed source item in one bulk write", async () => {
+    const requests = stubMagento(routes);
+    const result = await callTool(update, {
+      records: [
+        { sku: "MUG", locationId: "east", delta: -2 },
+        { sku: "MUG", locationId: "east", delta: 1 },
+        { sku: "MUG", locationId: "west", quantity: 0 },
+        { sku: "LAMP", locationId: "east", delta: 1 },
+        { sku: "MUG", locationId: "east", quantity: 5, delta: 1 },
+        { sku: "MUG", locationId: "east", delta: -20 },
+      ],
+    });
+
+    expect(result.results).toEqual([
+      { success: true, sku: "MUG", locationId: "east", available: 8, onHand: 8, unavailable: 0, tenantId: "m2" },
+      { success: true, sku: "MUG", locationId: "east", available: 9, onHand: 9, unavailable: 0, tenantId: "m2" },
+      { success: true, sku: "MUG", locationId: "west", available: 0, onHand: 0, unavailable: 0, tenantId: "m2" },
+      {
+        success: false,
+        sku: "LAMP",
+        locationId: "east",
+        error: 'SKU LAMP is not assigned to source "east" — set an absolute quantity to assign it',
+      },
+      { success: false, sku: "MUG", locationId: "east", error: "Provide exactly one of quantity or delta" },
+      { success: false, sku: "MUG", locationId: "east", error: "Resulting quantity -11 is negative" },
+    ]);
+    expect(result).toMatchObject({ succeeded: 3, failed: 3 });
+    expect(sent(requests, "POST", "inventory/source-items").map((r) => r.body)).toEqual([{
+      sourceItems: [
+        { sku: "MUG", source_code: "east", quantity: 9, status: 1 },
+        { sku: "MUG", source_code: "west", quantity: 0, status: 0 },
+      ],
+    }]);
+  });
+
+  it("saves source items one at a time to find the ones M2 rejects", async () => {
+    routes["POST inventory/source-items"] = (request) => {
+      const { sourceItems } = request.body as { sourceItems: M2SourceItem[] };
+      return sourceItems.some((item) => item.source_code === "closed") ? status(400, { message: "source is disabled" }) : true;
+    };
+    const requests = stubMagento(routes);
+    const result = await callTool(update, {
+      records: [
+        { sku: "MUG", locationId: "east", quantity: 4, status: "out_of_stock" },
+        { sku: "MUG", locationId: "closed", quantity: 1 },
+      ],
+    });
+
+    expect(sent(requests, "POST", "inventory/source-items")).toHaveLength(3);
+    expect(result.results).toEqual([
+      { success: true, sku: "MUG", locationId: "east", available: 0, onHand: 4, unavailable: 4, tenantId: "m2" },
+      { success: false, sku: "MUG", locationId: "closed", error: expect.stringContaining("source is disabled") },
+    ]);
+  });
+
+  it("updates legacy stock items at the default location without MSI", async () => {
+    const requests = stubMagento({
+      "GET stockItems/MUG": () => ({ item_id: 5, qty: 10, is_in_stock: true }),
+      "PUT products/MUG/stockItems/5": () => 5,
+    });
+    const result = await callTool(update, {
+      records: [
+        { sku: "MUG", locationId: "default", delta: -10 },
+        { sku: "MUG", locationId: "east", quantity: 3 },
+      ],
+    });
+
+    expect(sent(requests, "PUT", "products/MUG/stockItems/5")[0].body).toEqual({ stockItem: { qty: 0, is_in_stock: false } });
+    expect(result.results).toEqual([
+      { success: true, sku: "MUG", locationId: "default", available: 0, onHand: 0, unavailable: 0, tenantId: "m2" },
+      {
+        success: false,
+        sku: "MUG",
+        locationId: "east",
+        error: 'Location "east" does not exist — this store has no MSI sources, use "default"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { M2Rma, M2RmaItem } from "../src/types/magento.js";
+import { IdempotencyStore } from "../src/idempotency-store.js";
+import { registerUpdateReturn } from "../src/tools/update-return.js";
+import { callTool, captureTool, sent, stubMagento, testClient, type RecordedRequest, type Routes } from "./_harness.js";
+
+describe("update-return", () => {
+  let update: ReturnType<typeof captureTool>;
+  let rma: M2Rma;
+  let routes: Routes;
+
+  beforeEach(() => {
+    const client = testClient();
+    const store = new IdempotencyStore(join(tmpdir(), "onx-update-return-unused.json"), 0);
+    update = captureTool((server) => registerUpdateReturn(server, client, "m2", store, { rmaRefundOnApproval: false }));
+
+    rma = {
+      entity_id: 7,
+      increment_id: "R7",
+      order_id: 1,
+      status: "pending",
+      items: [
+        { entity_id: 1, order_item_id: 11, product_sku: "MUG", qty_requested: 2, status: "pending" },
+        { entity_id: 2, order_item_id: 12, product_sku: "LAMP", qty_requested: 1, status: "pending" },
+      ],
+      tracks: [{ track_number: "RET-1", carrier_title: "UPS" }],
+    } as M2Rma;
+    routes = {
+      "GET returns/7": () => rma,
+      "PUT returns/7": (request) => {
+        rma = { ...rma, ...(request.body as { rmaDataInterface: M2Rma }).rmaDataInterface };
+        return rma;
+      },
+      "POST returns/7/comments": () => true,
+      "POST returns/7/tracking-numbers": () => true,
+      "GET returnsAttributeMetadata/condition": () => ({
+        attribute_code: "condition",
+        options: [{ label: "Opened", value: "11" }, { label: "Damaged", value: "12" }],
+      }),
+      "GET returnsAttributeMetadata/resolution": () => ({
+        attribute_code: "resolution",
+        options: [{ label: "Refund", value: "21" }, { label: "Exchange", value: "22" }],
+      }),
+      "GET creditmemos": () => ({ items: [], total_count: 0 }),
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  const savedItems = (requests: RecordedRequest[]) =>
+    (sent(requests, "PUT", "returns/7")[0].body as { rmaDataInterface: M2Rma }).rmaDataInterface.items;
+
+  it("authorizes the requested quantities and attaches only new return labels", async () => {
+    const requests = stubMagento(routes);
+    const result = await callTool(update, {
+      id: "7",
+      action: "authorize",
+      labels: [{ carrier: "UPS", trackingNumber: "RET-1" }, { carrier: "UPS", trackingNumber: "RET-2" }],
+    });
+
+    expect(result.success).toBe(true);
+    expect(savedItems(requests)).toMatchObject([
+      { order_item_id: 11, qty_authorized: 2, status: "authorized" },
+      { order_item_id: 12, qty_authorized: 1, status: "authorized" },
+    ]);
+    expect(sent(requests, "POST", "returns/7/comments")[0].body).toMatchObject({
+      data: { comment: "Return authorized via onX", status: "authorized", is_visible_on_front: false },
+    });
+    expect(sent(requests, "POST", "returns/7/tracking-numbers").map((r) => r.body)).toEqual([{
+      track: { rma_entity_id: 7, track_number: "RET-2", carrier_title: "UPS", carrier_code: "custom" },
+    }]);
+  });
+
+  it("rejects a quantity above the previous step without saving the return", async () => {
+    rma.items = [{ entity_id: 1, order_item_id: 11, product_sku: "MUG", qty_requested: 2, qty_authorized: 1, status: "authorized" }];
+    const requests = stubMagento(routes);
+    const result = await callTool(update, { id: "7", action: "receive", lineItems: [{ sku: "MUG", quantity: 2 }] });
+
+    expect(result.error).toBe("update-return failed: cannot receive MUG (requested 2, at most 1)");
+    expect(requests.filter((r) => r.method !== "GET")).toEqual([]);
+  });
+
+  it("denies pending items, rejects authorized ones and shows the decline reason to the customer", async () => {
+    rma.items = [
+      { entity_id: 1, order_item_id: 11, product_sku: "MUG", qty_requested: 2, status: "pending" },
+      { entity_id: 2, order_item_id: 12, product_sku: "LAMP", qty_requested: 1, qty_authorized: 1, status: "authorized" },
+    ];
+    const requests = stubMagento(routes);
+    await callTool(update, { id: "7", action: "reject", declineReason: "Outside the return window" });
+
+    expect(savedItems(requests)).toMatchObject([{ status: "denied" }, { status: "rejected" }]);
+    expect(sent(requests, "POST", "returns/7/comments")[0].body).toMatchObject({
+      data: { comment: "Outside the return window", status: "closed", is_visible_on_front: true },
+    });
+  });
+
+  it("records the inspected condition and resolution as option values", async () => {
+    rma.items = [{ entity_id: 1, order_item_id: 11, product_sku: "MUG", qty_requested: 2, qty_returned: 2, status: "received" }];
+    const requests = stubMagento(routes);
+    await callTool(update, {
+      id: "7",
+      action: "inspect",
+      lineItems: [{ sku: "MUG", inspection: { conditionCategory: "damaged", dispositionOutcome: "Refund", note: "Cracked handle" } }],
+    });
+
+    expect(savedItems(requests)).toMatchObject([{ condition: "12", resolution: "21", status: "received" }]);
+    expect(sent(requests, "POST", "returns/7/comments")[0].body).toMatchObject({ data: { comment: "MUG: Cracked handle" } });
+  });
+
+  describe("refund on approval", () => {
+    const received = (item: Partial<M2RmaItem> & { order_item_id: number }): M2RmaItem =>
+      ({ qty_requested: 1, qty_authorized: 1, qty_returned: 1, status: "received", ...item });
+
+    beforeEach(() => {
+      rma.items = [
+        received({ entity_id: 1, order_item_id: 11, product_sku: "MUG", qty_requested: 2, qty_authorized: 2, qty_returned: 2, condition: "12" }),
+        received({ entity_id: 2, order_item_id: 12, product_sku: "LAMP", resolution: "21" }),
+        received({ entity_id: 3, order_item_id: 13, product_sku: "TEE", resolution: "22" }),
+      ];
+      Object.assign(routes, {
+        "GET invoices": () => ({
+          items: [{
+            entity_id: 4,
+            state: 2,
+            transaction_id: "txn-1",
+            items: [{ order_item_id: 11, qty: 2 }, { order_item_id: 12, qty: 1 }, { order_item_id: 13, qty: 1 }],
+          }],
+          total_count: 1,
+        }),
+        "POST invoice/4/refund": () => 30,
+      });
+    });
+
+    it("refunds approved items online, leaves out exchanges and restocks only undamaged items", async () => {
+      const requests = stubMagento(routes);
+      const result = await callTool(update, { id: "7", action: "approve", refund: true, restockingFee: 5, shippingRefundAmount: 4 });
+
+      expect(result.success).toBe(true);
+      expect(sent(requests, "POST", "invoice/4/refund")[0].body).toMatchObject({
+        isOnline: true,
+        items: [{ order_item_id: 11, qty: 2 }, { order_item_id: 12, qty: 1 }],
+        comment: { comment: "Refund for return [RMA #R7]", is_visible_on_front: 0 },
+        arguments: {
+          shipping_amount: 4,
+          adjustment_negative: 5,
+          extension_attributes: { return_to_stock_items: [12] },
+        },
+      });
+      expect(savedItems(requests)).toMatchObject([
+        { qty_approved: 2, status: "approved" },
+        { qty_approved: 1, status: "approved" },
+        { qty_approved: 1, status: "approved" },
+      ]);
+      expect(sent(requests, "POST", "returns/7/comments")[0].body).toMatchObject({
+        data: { comment: "Refunded in credit memo 30", status: "processed_closed" },
+      });
+    });
+
+    it("issues no credit memo when refund is off or only exchanged items are approved", async () => {
+      const requests = stubMagento(routes);
+      await callTool(update, { id: "7", action: "approve", lineItems: [{ sku: "MUG" }] });
+      await callTool(update, { id: "7", action: "approve", lineItems: [{ sku: "TEE" }], refund: true });
+
+      expect(sent(requests, "POST", "invoice/4/refund")).toEqual([]);
+      expect(sent(requests, "PUT", "returns/7")).toHaveLength(2);
+    });
+  });
+});